@@ -0,0 +1,220 @@
+/**
+ * Command-line runner: runs a ROM without a browser and writes out what it ended with.
+ *
+ * Build with `npm run build:cli`, then run `node build/cli/chippy.js --help`.
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import { deflateSync } from "zlib";
+import Chip8 from "../lib/emulator";
+import { hex } from "../lib/debugger";
+import { FramebufferDisplay } from "../lib/display";
+import { describeFault } from "../lib/faults";
+import { STOP_REASON_NAMES, keyStates, parseKeyScript, runHeadless } from "../lib/headless";
+import { encodePBM, encodePNG } from "../lib/image";
+import { importMovie, startMovie, type Movie } from "../lib/movie";
+import { BUILTIN_PALETTES, DEFAULT_PALETTE_NAME } from "../lib/palettes";
+import { Profiler, exportProfile, findUnexecutedCode } from "../lib/profiler";
+import { DEFAULT_QUIRKS_PRESET, QUIRKS_PRESETS, resolveQuirks, type QuirksPreset } from "../lib/quirks";
+import { hashROM } from "../lib/rom";
+import { DEFAULT_CYCLES_PER_FRAME } from "../lib/scheduler";
+import { Tracer, diffTraces, exportTrace, formatTraceEntry, parseTrace } from "../lib/tracer";
+
+/** Frames run unless `--frames` says otherwise: ten seconds */
+const DEFAULT_FRAMES = 600;
+
+/** Exit code when the program halted on a fault */
+const EXIT_FAULT = 1;
+/** Exit code for invalid arguments or unreadable files */
+const EXIT_USAGE = 2;
+/** Exit code when the trace differs from the reference trace */
+const EXIT_DIVERGED = 3;
+
+const USAGE = `Usage: chippy <rom> [options]
+
+Runs a ROM headless, then writes out the display, registers and trace as requested.
+
+Options:
+  --frames N          Frames to run (default ${DEFAULT_FRAMES})
+  --cycles N          Instructions per frame (default ${DEFAULT_CYCLES_PER_FRAME})
+  --quirks PRESET     ${Object.keys(QUIRKS_PRESETS).join(", ")} (default ${DEFAULT_QUIRKS_PRESET})
+  --seed N            Seed of the random number generator (default 0)
+  --until-pc ADDR     Stop before executing the instruction at ADDR, e.g. 0x2F4
+  --until-loop        Stop at a jump to itself
+  --keys FILE         Key script: lines of "<frame> <keys held from then on>", e.g. "30 5 A"
+  --movie FILE        Replay a recorded movie, with its quirks, cycles, seed and keys
+  --screenshot FILE   Write the final display as .png or .pbm
+  --scale N           Size of each pixel in PNG screenshots (default 1)
+  --palette NAME      Colours of PNG screenshots (default ${DEFAULT_PALETTE_NAME})
+  --registers FILE    Write the final registers as JSON
+  --trace FILE        Write every executed instruction as text
+  --trace-limit N     Keep only the last N instructions in the trace (default ${Tracer.DEFAULT_CAPACITY})
+  --compare-trace FILE
+                      Report the first instruction that differs from a reference trace
+  --profile FILE      Write instruction counts per address and subroutine, and code
+                      which never executed, as JSON
+  --help              Show this message
+
+Exits with ${EXIT_FAULT} if the program halted on a fault, ${EXIT_USAGE} for invalid arguments, or
+${EXIT_DIVERGED} if the trace differs from the reference trace.
+`;
+
+/**
+ * Parses a non-negative integer argument, in decimal or `0x` hex
+ */
+function parseNumber(name: string, text: string | undefined, fallback: number): number {
+    if (text === undefined) {
+        return fallback;
+    }
+
+    const value = /^0x[0-9a-f]+$/i.test(text) ? parseInt(text.substring(2), 16) : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+    if (Number.isNaN(value)) {
+        throw Error(`--${name} expects a number, not ${text}`);
+    }
+    return value;
+}
+
+async function main(): Promise<number> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            frames: { type: "string" },
+            cycles: { type: "string" },
+            quirks: { type: "string" },
+            seed: { type: "string" },
+            "until-pc": { type: "string" },
+            "until-loop": { type: "boolean" },
+            keys: { type: "string" },
+            movie: { type: "string" },
+            screenshot: { type: "string" },
+            scale: { type: "string" },
+            palette: { type: "string" },
+            registers: { type: "string" },
+            trace: { type: "string" },
+            "trace-limit": { type: "string" },
+            "compare-trace": { type: "string" },
+            profile: { type: "string" },
+            help: { type: "boolean" },
+        },
+    });
+
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return 0;
+    }
+    if (positionals.length !== 1) {
+        throw Error("Expected a single ROM file");
+    }
+
+    const preset = (values.quirks ?? DEFAULT_QUIRKS_PRESET) as QuirksPreset;
+    if (!(preset in QUIRKS_PRESETS)) {
+        throw Error(`Unknown quirks preset: ${preset}`);
+    }
+    const palette = BUILTIN_PALETTES.find((palette) => palette.name === (values.palette ?? DEFAULT_PALETTE_NAME));
+    if (!palette) {
+        throw Error(`Unknown palette: ${values.palette}`);
+    }
+    if (values.screenshot && !/\.(png|pbm)$/i.test(values.screenshot)) {
+        throw Error("--screenshot must name a .png or .pbm file");
+    }
+    if (values.movie) {
+        // The movie's own settings are needed to replay it exactly
+        const conflicting = ["keys", "quirks", "seed", "cycles"].filter((name) => values[name as keyof typeof values] !== undefined);
+        if (conflicting.length > 0) {
+            throw Error(`--movie can't be used with ${conflicting.map((name) => `--${name}`).join(", ")}`);
+        }
+    }
+
+    const rom = new Uint8Array(readFileSync(positionals[0]));
+    let movie: Movie | null = null;
+    if (values.movie) {
+        movie = importMovie(readFileSync(values.movie, "utf8"));
+        if (movie.romHash !== await hashROM(rom)) {
+            throw Error(`Movie was recorded with a different ROM (${movie.romHash})`);
+        }
+    }
+
+    const frames = parseNumber("frames", values.frames, movie?.frames.length ?? DEFAULT_FRAMES);
+    const cyclesPerFrame = movie?.cyclesPerFrame ?? parseNumber("cycles", values.cycles, DEFAULT_CYCLES_PER_FRAME);
+    const keys = movie?.frames ?? (values.keys ? keyStates(parseKeyScript(readFileSync(values.keys, "utf8")), frames) : []);
+
+    const display = new FramebufferDisplay();
+    const chip8 = new Chip8(display);
+    startMovie(chip8, rom, movie ?? { quirks: resolveQuirks(preset), seed: parseNumber("seed", values.seed, 0) });
+
+    const reference = values["compare-trace"] ? parseTrace(readFileSync(values["compare-trace"], "utf8")) : null;
+    const tracer = values.trace || reference
+        ? new Tracer(chip8, parseNumber("trace-limit", values["trace-limit"], Tracer.DEFAULT_CAPACITY))
+        : null;
+
+    const profiler = values.profile ? new Profiler(chip8) : null;
+
+    const result = runHeadless(chip8, {
+        frames,
+        cyclesPerFrame,
+        untilPC: values["until-pc"] === undefined ? undefined : parseNumber("until-pc", values["until-pc"], 0),
+        untilLoop: values["until-loop"],
+        keys,
+    });
+
+    const registers = chip8.inspect();
+    const fault = chip8.getFault();
+    console.log(`${STOP_REASON_NAMES[result.reason]} after ${result.frames} frames, at ${hex(registers.pc)}`);
+    if (fault) {
+        console.error(describeFault(fault));
+    }
+
+    if (values.screenshot?.toLowerCase().endsWith(".png")) {
+        const scale = parseNumber("scale", values.scale, 1);
+        writeFileSync(values.screenshot, encodePNG(display, palette, (data) => deflateSync(data), scale));
+    } else if (values.screenshot) {
+        writeFileSync(values.screenshot, encodePBM(display));
+    }
+
+    if (values.registers) {
+        const dump = {
+            reason: result.reason,
+            frames: result.frames,
+            ...registers,
+            v: Array.from(registers.v),
+            fault,
+        };
+        writeFileSync(values.registers, JSON.stringify(dump, null, 2) + "\n");
+    }
+
+    if (profiler && values.profile) {
+        const profile = profiler.getProfile();
+        const unexecuted = findUnexecutedCode(chip8.readMemory(0, Chip8.MEM_SIZE), chip8.getROMSize(), profile);
+        writeFileSync(values.profile, exportProfile(profile, unexecuted) + "\n");
+    }
+
+    if (tracer && values.trace) {
+        writeFileSync(values.trace, exportTrace(tracer.getEntries(), tracer.getDropped()));
+    }
+
+    if (tracer && reference) {
+        if (tracer.getDropped() > 0) {
+            throw Error("The trace dropped instructions, so can't be compared; raise --trace-limit");
+        }
+
+        const divergence = diffTraces(tracer.getEntries(), reference);
+        if (divergence) {
+            console.log(`First difference at instruction ${divergence.index}:`);
+            console.log(`  ours:      ${formatTraceEntry(divergence.ours)}`);
+            console.log(`  reference: ${formatTraceEntry(divergence.reference)}`);
+            divergence.differences.forEach((difference) => console.log(`  ${difference} (ours vs reference)`));
+            return EXIT_DIVERGED;
+        }
+        console.log(`The traces agree for ${Math.min(tracer.length, reference.length)} instructions`);
+    }
+
+    return fault ? EXIT_FAULT : 0;
+}
+
+main().then(
+    (code) => process.exit(code),
+    (reason) => {
+        console.error(reason instanceof Error ? reason.message : reason);
+        process.exit(EXIT_USAGE);
+    }
+);
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { assemble } from './assembler';
+import { disassembleRange, findReachableCode } from './disassembler';
+import Chip8 from './emulator';
+import { FramebufferDisplay } from './display';
+import { ManualClock } from './clock';
+
+describe('assemble', () => {
+	it('resolves labels, including forward references', () => {
+		const { rom, errors, labels } = assemble(`
+			: main
+				i := sprite
+				jump main
+			: sprite
+				0b11110000 0x90
+		`);
+
+		expect(errors).toEqual([]);
+		expect(labels.get('sprite')).toBe(0x204);
+		expect(Array.from(rom)).toEqual([0xa2, 0x04, 0x12, 0x00, 0xf0, 0x90]);
+	});
+
+	it('supports constants, :byte data and includes', () => {
+		const { rom, errors } = assemble(
+			`
+			:const SPEED 3
+			v1 += SPEED
+			:byte -1
+			:include "face.bin"
+			`,
+			{ includes: { 'face.bin': Uint8Array.of(0x3c, 0x42) } }
+		);
+
+		expect(errors).toEqual([]);
+		expect(Array.from(rom)).toEqual([0x71, 0x03, 0xff, 0x3c, 0x42]);
+	});
+
+	it('assembles SUPER-CHIP and XO-CHIP instructions', () => {
+		const { rom, errors } = assemble(`
+			hires
+			scroll-down 4
+			i := long 0x1234
+			plane 3
+			save v2 - v5
+			pitch := v1
+		`);
+
+		expect(errors).toEqual([]);
+		expect(Array.from(rom)).toEqual([
+			0x00, 0xff, 0x00, 0xc4, 0xf0, 0x00, 0x12, 0x34, 0xf3, 0x01, 0x52, 0x52, 0xf1, 0x3a
+		]);
+	});
+
+	it('reports errors with their line numbers', () => {
+		const { errors } = assemble('v0 := 1\nv0 := 300\nv0 ?? 1\njump nowhere\n');
+
+		expect(errors.map((err) => err.line)).toEqual([2, 3, 4]);
+		expect(errors[2].message).toContain('nowhere');
+	});
+
+	it('reassembles disassembler output to the same bytes', () => {
+		const source = `
+			v0 := 0
+			loop
+				if v0 == 8 then jump done
+				i := hex v0
+				sprite v0 v0 5
+				v0 += 1
+				v3 <<= v4
+			again
+			: done
+				i := long 0x0300
+				exit
+		`;
+		const { rom } = assemble(source);
+		const memory = new Uint8Array(0x1000);
+		memory.set(rom, 0x200);
+		const lines = disassembleRange(memory, 0x200, 0x200 + rom.length, 'octo', findReachableCode(memory));
+
+		const reassembled = assemble(lines.map((line) => line.text).join('\n'));
+		expect(reassembled.errors).toEqual([]);
+		expect(reassembled.rom).toEqual(rom);
+	});
+
+	it('produces ROMs the emulator runs', () => {
+		const { rom } = assemble(`
+			v0 := 7
+			v1 := 5
+			v0 += v1
+			: halt
+			jump halt
+		`);
+		const chip8 = new Chip8(new FramebufferDisplay(), { clock: new ManualClock() });
+		chip8.loadROM(rom);
+		for (let n = 0; n < 4; n++) {
+			chip8.step();
+		}
+
+		expect(chip8.inspect().v[0]).toBe(12);
+	});
+});
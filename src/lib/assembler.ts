@@ -0,0 +1,507 @@
+/**
+ * A problem found while assembling, tied to a source line
+ */
+export interface AssemblyError {
+    /** 1-based source line number */
+    line: number;
+    message: string;
+}
+
+export interface AssemblyResult {
+    /** Assembled program, to be loaded at the program start location */
+    rom: Uint8Array;
+    /** Every problem found; the ROM is only usable when this is empty */
+    errors: AssemblyError[];
+    /** Address of every label */
+    labels: Map<string, number>;
+}
+
+export interface AssemblerOptions {
+    /** Binary files available to `:include`, by name */
+    includes?: Record<string, Uint8Array>;
+}
+
+/** Program start location */
+const ORIGIN = 0x200;
+/** Highest address a program may occupy, plus one */
+const MEMORY_END = 0x10000;
+
+interface Token {
+    text: string;
+    line: number;
+}
+
+/**
+ * Statement whose bytes are encoded once every label is known
+ */
+interface Emission {
+    addr: number;
+    line: number;
+    size: number;
+    encode: () => number[];
+}
+
+class AssemblerError extends Error {
+    public readonly line: number;
+
+    public constructor(line: number, message: string) {
+        super(message);
+        this.line = line;
+    }
+}
+
+/**
+ * Splits source into tokens, dropping `#` comments
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    source.split(/\r?\n/).forEach((text, idx) => {
+        const code = text.replace(/#.*$/, "");
+        for (const match of code.matchAll(/"[^"]*"|\S+/g)) {
+            tokens.push({ text: match[0], line: idx + 1 });
+        }
+    });
+    return tokens;
+}
+
+function parseNumber(text: string): number | null {
+    if (/^-?[0-9]+$/.test(text)) {
+        return parseInt(text, 10);
+    }
+    if (/^0x[0-9a-f]+$/i.test(text)) {
+        return parseInt(text.substring(2), 16);
+    }
+    if (/^0b[01]+$/i.test(text)) {
+        return parseInt(text.substring(2), 2);
+    }
+    return null;
+}
+
+function parseRegister(text: string): number | null {
+    const match = /^v([0-9a-f])$/i.exec(text);
+    return match ? parseInt(match[1], 16) : null;
+}
+
+const ARITHMETIC_OPS: Record<string, number> = {
+    "|=": 0x1,
+    "&=": 0x2,
+    "^=": 0x3,
+    "-=": 0x5,
+    ">>=": 0x6,
+    "=-": 0x7,
+    "<<=": 0xE,
+};
+
+const NO_ARG_OPS: Record<string, number> = {
+    "clear": 0x00E0,
+    "return": 0x00EE,
+    "scroll-right": 0x00FB,
+    "scroll-left": 0x00FC,
+    "exit": 0x00FD,
+    "lores": 0x00FE,
+    "hires": 0x00FF,
+    "audio": 0xF002,
+};
+
+/**
+ * Assembles Octo-style CHIP-8, SUPER-CHIP and XO-CHIP source.
+ *
+ * Supports labels (`: name`), constants (`:const name value`), raw bytes (bare numbers or
+ * `:byte value`), `:include "name"` of binary data, `:org`, `loop`/`again` and one-statement
+ * `if ... then` conditions.
+ * @param source program text
+ * @param options assembler options
+ */
+export function assemble(source: string, options: AssemblerOptions = {}): AssemblyResult {
+    const includes = options.includes ?? {};
+    const tokens = tokenize(source);
+    const errors: AssemblyError[] = [];
+    const labels = new Map<string, number>();
+    const constants = new Map<string, number>();
+    const emissions: Emission[] = [];
+    /** Start address and line of each open `loop` */
+    const loops: Array<{ addr: number; line: number }> = [];
+
+    let addr = ORIGIN;
+    let pos = 0;
+
+    function next(): Token {
+        const token = tokens[pos];
+        if (!token) {
+            const lastLine = tokens.length > 0 ? tokens[tokens.length - 1].line : 1;
+            throw new AssemblerError(lastLine, "Unexpected end of source");
+        }
+        pos += 1;
+        return token;
+    }
+
+    function expect(text: string) {
+        const token = next();
+        if (token.text !== text) {
+            throw new AssemblerError(token.line, `Expected '${text}' but found '${token.text}'`);
+        }
+    }
+
+    function register(token: Token): number {
+        const idx = parseRegister(token.text);
+        if (idx === null) {
+            throw new AssemblerError(token.line, `Expected a register but found '${token.text}'`);
+        }
+        return idx;
+    }
+
+    /**
+     * Resolves a number, constant or label once all labels are known
+     */
+    function value(token: Token, max: number): number {
+        let resolved = parseNumber(token.text);
+        if (resolved === null) {
+            resolved = constants.get(token.text) ?? labels.get(token.text) ?? null;
+        }
+        if (resolved === null) {
+            throw new AssemblerError(token.line, `Undefined name '${token.text}'`);
+        }
+
+        // Negative bytes are stored as two's complement
+        if (max === 0xFF && resolved < 0 && resolved >= -0x80) {
+            resolved &= 0xFF;
+        }
+        if (resolved < 0 || resolved > max) {
+            throw new AssemblerError(token.line, `Value ${token.text} is out of range (0 to ${max})`);
+        }
+        return resolved;
+    }
+
+    function emit(line: number, size: number, encode: () => number[]) {
+        if (addr + size > MEMORY_END) {
+            throw new AssemblerError(line, "Program does not fit in memory");
+        }
+        emissions.push({ addr, line, size, encode });
+        addr += size;
+    }
+
+    function emitOp(line: number, encode: () => number) {
+        emit(line, 2, () => {
+            const opcode = encode();
+            return [opcode >> 8, opcode & 0xFF];
+        });
+    }
+
+    /**
+     * Parses `if <condition> then` and emits the skip which guards the next statement
+     */
+    function parseIf(line: number) {
+        const x = register(next());
+        const op = next();
+        if (op.text === "key" || op.text === "-key") {
+            expect("then");
+            // Skip the guarded statement when the condition is false
+            const base = op.text === "key" ? 0xE0A1 : 0xE09E;
+            emitOp(line, () => base | (x << 8));
+            return;
+        }
+
+        if (op.text !== "==" && op.text !== "!=") {
+            throw new AssemblerError(op.line, `Unknown comparison '${op.text}'`);
+        }
+
+        const rhs = next();
+        expect("then");
+        const y = parseRegister(rhs.text);
+        if (y !== null) {
+            const base = op.text === "==" ? 0x9000 : 0x5000;
+            emitOp(line, () => base | (x << 8) | (y << 4));
+        } else {
+            const base = op.text === "==" ? 0x4000 : 0x3000;
+            emitOp(line, () => base | (x << 8) | value(rhs, 0xFF));
+        }
+    }
+
+    /**
+     * Parses a statement starting with a register
+     */
+    function parseRegisterStatement(x: number, line: number) {
+        const op = next();
+        const operand = next();
+        const y = parseRegister(operand.text);
+
+        switch (op.text) {
+            case ":=":
+                if (y !== null) {
+                    emitOp(line, () => 0x8000 | (x << 8) | (y << 4));
+                } else if (operand.text === "random") {
+                    const mask = next();
+                    emitOp(line, () => 0xC000 | (x << 8) | value(mask, 0xFF));
+                } else if (operand.text === "delay") {
+                    emitOp(line, () => 0xF007 | (x << 8));
+                } else if (operand.text === "key") {
+                    emitOp(line, () => 0xF00A | (x << 8));
+                } else {
+                    emitOp(line, () => 0x6000 | (x << 8) | value(operand, 0xFF));
+                }
+                return;
+            case "+=":
+                if (y !== null) {
+                    emitOp(line, () => 0x8004 | (x << 8) | (y << 4));
+                } else {
+                    emitOp(line, () => 0x7000 | (x << 8) | value(operand, 0xFF));
+                }
+                return;
+        }
+
+        const mathOp = ARITHMETIC_OPS[op.text];
+        if (mathOp === undefined) {
+            throw new AssemblerError(op.line, `Unknown operator '${op.text}'`);
+        }
+        if (y === null) {
+            throw new AssemblerError(operand.line, `'${op.text}' needs a register operand`);
+        }
+        emitOp(line, () => 0x8000 | (x << 8) | (y << 4) | mathOp);
+    }
+
+    /**
+     * Parses `i := ...` and `i += vX`
+     */
+    function parseIndexStatement(line: number) {
+        const op = next();
+        const operand = next();
+
+        if (op.text === "+=") {
+            const x = register(operand);
+            emitOp(line, () => 0xF01E | (x << 8));
+            return;
+        }
+        if (op.text !== ":=") {
+            throw new AssemblerError(op.line, `Unknown operator '${op.text}'`);
+        }
+
+        switch (operand.text) {
+            case "hex": {
+                const x = register(next());
+                emitOp(line, () => 0xF029 | (x << 8));
+                return;
+            }
+            case "bighex": {
+                const x = register(next());
+                emitOp(line, () => 0xF030 | (x << 8));
+                return;
+            }
+            case "long": {
+                const target = next();
+                emit(line, 4, () => {
+                    const longAddr = value(target, 0xFFFF);
+                    return [0xF0, 0x00, longAddr >> 8, longAddr & 0xFF];
+                });
+                return;
+            }
+        }
+
+        emitOp(line, () => 0xA000 | value(operand, 0xFFF));
+    }
+
+    /**
+     * Parses `save`/`load`, with either a single register or an XO-CHIP range
+     */
+    function parseSaveLoad(keyword: string, line: number) {
+        const x = register(next());
+        if (tokens[pos]?.text === "-") {
+            pos += 1;
+            const y = register(next());
+            const base = keyword === "save" ? 0x5002 : 0x5003;
+            emitOp(line, () => base | (x << 8) | (y << 4));
+            return;
+        }
+
+        const base = keyword === "save" ? 0xF055 : 0xF065;
+        emitOp(line, () => base | (x << 8));
+    }
+
+    function parseStatement() {
+        const token = next();
+        const line = token.line;
+        const text = token.text;
+
+        const noArgOp = NO_ARG_OPS[text];
+        if (noArgOp !== undefined) {
+            emitOp(line, () => noArgOp);
+            return;
+        }
+
+        const x = parseRegister(text);
+        if (x !== null) {
+            parseRegisterStatement(x, line);
+            return;
+        }
+
+        switch (text) {
+            case ":": {
+                const name = next();
+                if (labels.has(name.text) || constants.has(name.text)) {
+                    throw new AssemblerError(name.line, `'${name.text}' is already defined`);
+                }
+                labels.set(name.text, addr);
+                return;
+            }
+            case ":const": {
+                const name = next();
+                const constValue = next();
+                if (labels.has(name.text) || constants.has(name.text)) {
+                    throw new AssemblerError(name.line, `'${name.text}' is already defined`);
+                }
+                constants.set(name.text, value(constValue, 0xFFFF));
+                return;
+            }
+            case ":byte": {
+                const byte = next();
+                emit(line, 1, () => [value(byte, 0xFF)]);
+                return;
+            }
+            case ":org": {
+                const target = value(next(), MEMORY_END - 1);
+                if (target < addr) {
+                    throw new AssemblerError(line, `:org cannot move backwards to 0x${target.toString(16)}`);
+                }
+                const padding = target - addr;
+                emit(line, padding, () => new Array(padding).fill(0));
+                return;
+            }
+            case ":include": {
+                const name = next();
+                const data = includes[name.text.replace(/^"|"$/g, "")];
+                if (!data) {
+                    throw new AssemblerError(name.line, `No include named ${name.text}`);
+                }
+                emit(line, data.length, () => Array.from(data));
+                return;
+            }
+            case ":call": {
+                const target = next();
+                emitOp(line, () => 0x2000 | value(target, 0xFFF));
+                return;
+            }
+            case "jump": {
+                const target = next();
+                emitOp(line, () => 0x1000 | value(target, 0xFFF));
+                return;
+            }
+            case "jump0": {
+                const target = next();
+                emitOp(line, () => 0xB000 | value(target, 0xFFF));
+                return;
+            }
+            case "native": {
+                const target = next();
+                emitOp(line, () => value(target, 0xFFF));
+                return;
+            }
+            case "scroll-down":
+            case "scroll-up": {
+                const rows = next();
+                const base = text === "scroll-down" ? 0x00C0 : 0x00D0;
+                emitOp(line, () => base | value(rows, 0xF));
+                return;
+            }
+            case "if":
+                parseIf(line);
+                return;
+            case "loop":
+                loops.push({ addr, line });
+                return;
+            case "again": {
+                const start = loops.pop();
+                if (start === undefined) {
+                    throw new AssemblerError(line, "'again' without 'loop'");
+                }
+                emitOp(line, () => 0x1000 | start.addr);
+                return;
+            }
+            case "i":
+                parseIndexStatement(line);
+                return;
+            case "delay":
+            case "buzzer":
+            case "pitch": {
+                expect(":=");
+                const source = register(next());
+                const base = { delay: 0xF015, buzzer: 0xF018, pitch: 0xF03A }[text];
+                emitOp(line, () => base | (source << 8));
+                return;
+            }
+            case "sprite": {
+                const sx = register(next());
+                const sy = register(next());
+                const height = next();
+                emitOp(line, () => 0xD000 | (sx << 8) | (sy << 4) | value(height, 0xF));
+                return;
+            }
+            case "bcd":
+            case "saveflags":
+            case "loadflags": {
+                const reg = register(next());
+                const base = { bcd: 0xF033, saveflags: 0xF075, loadflags: 0xF085 }[text];
+                emitOp(line, () => base | (reg << 8));
+                return;
+            }
+            case "save":
+            case "load":
+                parseSaveLoad(text, line);
+                return;
+            case "plane": {
+                const mask = next();
+                emitOp(line, () => 0xF001 | (value(mask, 0x3) << 8));
+                return;
+            }
+        }
+
+        if (parseNumber(text) !== null || constants.has(text)) {
+            // Bare numbers are raw data bytes
+            emit(line, 1, () => [value(token, 0xFF)]);
+            return;
+        }
+
+        if (/^[A-Za-z_][\w-]*$/.test(text)) {
+            // Bare names call the subroutine at that label
+            emitOp(line, () => 0x2000 | value(token, 0xFFF));
+            return;
+        }
+
+        throw new AssemblerError(line, `Unexpected '${text}'`);
+    }
+
+    // Pass 1: lay out statements and collect labels
+    while (pos < tokens.length) {
+        try {
+            parseStatement();
+        } catch (err) {
+            if (!(err instanceof AssemblerError)) {
+                throw err;
+            }
+            errors.push({ line: err.line, message: err.message });
+            // Resynchronize at the next line
+            const failedLine = tokens[pos - 1]?.line ?? err.line;
+            while (pos < tokens.length && tokens[pos].line === failedLine) {
+                pos += 1;
+            }
+        }
+    }
+
+    for (const unclosed of loops) {
+        errors.push({ line: unclosed.line, message: "'loop' without 'again'" });
+    }
+
+    // Pass 2: encode now that every label is known
+    const rom = new Uint8Array(addr - ORIGIN);
+    for (const emission of emissions) {
+        try {
+            rom.set(emission.encode(), emission.addr - ORIGIN);
+        } catch (err) {
+            if (!(err instanceof AssemblerError)) {
+                throw err;
+            }
+            errors.push({ line: err.line, message: err.message });
+        }
+    }
+
+    errors.sort((a, b) => a.line - b.line);
+    return { rom, errors, labels };
+}
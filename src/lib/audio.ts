@@ -0,0 +1,248 @@
+/** Number of bytes in an XO-CHIP audio pattern */
+export const PATTERN_SIZE = 16;
+/** XO-CHIP pitch register value which plays patterns at 4000 Hz */
+export const DEFAULT_PITCH = 64;
+
+/**
+ * Calculates the bit rate of XO-CHIP pattern playback
+ * @param pitch value of the pitch register
+ * @returns pattern bits played per second
+ */
+export function patternPlaybackRate(pitch: number): number {
+    return 4000 * Math.pow(2, (pitch - DEFAULT_PITCH) / 48);
+}
+
+/**
+ * Sound output driven by the emulator's sound timer.
+ */
+export interface AudioSink {
+    /**
+     * Starts the buzzer tone, or extends a playing one
+     * @param duration seconds until the sound timer runs out at 60 Hz, unless stopped or restarted first
+     */
+    start(duration: number): void;
+
+    /**
+     * Stops the buzzer tone
+     */
+    stop(): void;
+
+    /**
+     * Replaces the buzzer tone with an XO-CHIP 1-bit audio pattern
+     * @param pattern 128-bit pattern, most significant bit first; null restores the plain tone
+     * @param pitch value of the pitch register
+     */
+    setPattern(pattern: Uint8Array | null, pitch: number): void;
+}
+
+/**
+ * Audio sink which produces no sound. Used when running headless.
+ */
+export class SilentAudioSink implements AudioSink {
+    public start() {
+        // Nothing to play
+    }
+
+    public stop() {
+        // Nothing to stop
+    }
+
+    public setPattern() {
+        // Nothing to play
+    }
+}
+
+/** Waveforms the plain buzzer tone can use */
+export const WAVEFORMS: ReadonlyArray<OscillatorType> = ["square", "triangle", "sawtooth", "sine"];
+
+/**
+ * User-adjustable sound output
+ */
+export interface AudioSettings {
+    /** Output gain from 0 to 1 */
+    volume: number;
+    muted: boolean;
+    /** Frequency of the plain buzzer tone, in Hz */
+    frequency: number;
+    /** Waveform of the plain buzzer tone */
+    waveform: OscillatorType;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: Readonly<AudioSettings> = {
+    volume: 0.25,
+    muted: false,
+    frequency: 440,
+    waveform: "square",
+};
+
+/** Time constant of the gate's attack and release, short enough to keep notes crisp without clicking */
+const ENVELOPE_TIME_CONSTANT = 0.002;
+/** Time constant of volume changes */
+const VOLUME_TIME_CONSTANT = 0.01;
+
+/**
+ * Audio sink which plays a tone, or the current pattern, through the Web Audio API.
+ *
+ * The source runs continuously into an envelope gate followed by a volume stage. Starting and
+ * stopping only schedule the gate on the audio clock, so a sound lasts exactly as long as the
+ * sound timer regardless of when the emulator's messages arrive.
+ *
+ * Browsers keep an AudioContext suspended until the page is interacted with, so the context is
+ * only created by `resume()`, which should be called from a user gesture; see `resumeOnGesture()`.
+ */
+export class WebAudioSink implements AudioSink {
+    private audioCtx: AudioContext | null = null;
+    private source: AudioScheduledSourceNode | null = null;
+    private gate: GainNode | null = null;
+    private volume: GainNode | null = null;
+
+    private settings: AudioSettings = { ...DEFAULT_AUDIO_SETTINGS };
+    private pattern: Uint8Array | null = null;
+    private pitch = DEFAULT_PITCH;
+    /** Audio clock time at which the gate closes, or null while closed */
+    private endTime: number | null = null;
+
+    /**
+     * Creates or resumes the AudioContext. Must run during a user gesture the first time.
+     */
+    public async resume() {
+        if (!this.audioCtx) {
+            this.audioCtx = new AudioContext({ latencyHint: "interactive" });
+            this.volume = this.audioCtx.createGain();
+            this.volume.gain.value = this.outputGain();
+            this.volume.connect(this.audioCtx.destination);
+            this.gate = this.audioCtx.createGain();
+            this.gate.gain.value = 0;
+            this.gate.connect(this.volume);
+            this.replaceSource();
+        }
+
+        if (this.audioCtx.state === "suspended") {
+            await this.audioCtx.resume();
+        }
+    }
+
+    /**
+     * Resumes audio on the first pointer or key press on a target
+     * @param target element or document receiving the user's input
+     */
+    public resumeOnGesture(target: EventTarget) {
+        const events = ["pointerdown", "keydown"];
+        const listener = () => {
+            events.forEach((type) => target.removeEventListener(type, listener, true));
+            this.resume().catch((reason) => console.error(`Failed to start audio: ${reason}`));
+        };
+        events.forEach((type) => target.addEventListener(type, listener, true));
+    }
+
+    public getSettings(): AudioSettings {
+        return { ...this.settings };
+    }
+
+    public setSettings(settings: AudioSettings) {
+        if (!(settings.volume >= 0 && settings.volume <= 1)) {
+            throw Error(`Invalid volume: ${settings.volume}`);
+        }
+        if (!(settings.frequency > 0)) {
+            throw Error(`Invalid tone frequency: ${settings.frequency}`);
+        }
+
+        const toneChanged = settings.waveform !== this.settings.waveform
+            || settings.frequency !== this.settings.frequency;
+        this.settings = { ...settings };
+
+        if (this.audioCtx && this.volume) {
+            this.volume.gain.setTargetAtTime(this.outputGain(), this.audioCtx.currentTime, VOLUME_TIME_CONSTANT);
+        }
+        if (toneChanged && !this.pattern) {
+            this.replaceSource();
+        }
+    }
+
+    public start(duration: number) {
+        if (!this.audioCtx || !this.gate) {
+            return;
+        }
+
+        const now = this.audioCtx.currentTime;
+        const gain = this.gate.gain;
+        if (this.endTime === null || this.endTime <= now) {
+            gain.cancelScheduledValues(now);
+            gain.setTargetAtTime(1, now, ENVELOPE_TIME_CONSTANT);
+        } else {
+            // Already open; only move the release
+            gain.cancelScheduledValues(this.endTime);
+        }
+
+        this.endTime = now + duration;
+        gain.setTargetAtTime(0, this.endTime, ENVELOPE_TIME_CONSTANT);
+    }
+
+    public stop() {
+        if (!this.audioCtx || !this.gate || this.endTime === null) {
+            return;
+        }
+
+        // Never extends the sound; the release may already be scheduled earlier
+        const now = this.audioCtx.currentTime;
+        if (this.endTime > now) {
+            this.gate.gain.cancelScheduledValues(now);
+            this.gate.gain.setTargetAtTime(0, now, ENVELOPE_TIME_CONSTANT);
+        }
+        this.endTime = null;
+    }
+
+    public setPattern(pattern: Uint8Array | null, pitch: number) {
+        this.pattern = pattern ? pattern.slice() : null;
+        this.pitch = pitch;
+        this.replaceSource();
+    }
+
+    private outputGain(): number {
+        return this.settings.muted ? 0 : this.settings.volume;
+    }
+
+    /**
+     * Swaps in a source for the current tone or pattern, leaving the gate as it is
+     */
+    private replaceSource() {
+        if (!this.audioCtx || !this.gate) {
+            return;
+        }
+
+        this.source?.stop();
+        this.source?.disconnect();
+        this.source = this.pattern ? this.createPatternSource(this.audioCtx, this.pattern) : this.createTone(this.audioCtx);
+        this.source.connect(this.gate);
+        this.source.start();
+    }
+
+    private createTone(ctx: AudioContext): OscillatorNode {
+        const oscillator = ctx.createOscillator();
+        oscillator.type = this.settings.waveform;
+        oscillator.frequency.value = this.settings.frequency;
+        return oscillator;
+    }
+
+    /**
+     * Renders one period of the pattern at the context's sample rate and loops it
+     */
+    private createPatternSource(ctx: AudioContext, pattern: Uint8Array): AudioBufferSourceNode {
+        const bitCount = pattern.length * 8;
+        const rate = patternPlaybackRate(this.pitch);
+        const length = Math.max(1, Math.round(ctx.sampleRate * bitCount / rate));
+
+        const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+        const samples = buffer.getChannelData(0);
+        for (let i = 0; i < length; i++) {
+            const bit = Math.floor(i * rate / ctx.sampleRate) % bitCount;
+            const set = (pattern[bit >> 3] >> (7 - (bit & 0b111))) & 0b1;
+            samples[i] = set ? 1 : -1;
+        }
+
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.loop = true;
+        return source;
+    }
+}
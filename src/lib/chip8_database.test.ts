@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { ROMDatabase, applyKeyHints, configureROM, describeKeyHints, translateQuirks, type ROMInfo } from './chip8_database';
+import { defaultBindings, keyboardBindingsFor } from './input';
+import { QUIRKS_PRESETS } from './quirks';
+
+const PROGRAMS = JSON.stringify([
+	{
+		title: 'Test Game',
+		authors: ['Someone'],
+		release: '2023',
+		roms: {
+			'AAAA000000000000000000000000000000000000': {
+				platforms: ['unknownPlatform', 'superchip'],
+				quirkyPlatforms: { superchip: { wrap: true } },
+				tickrate: 30,
+				keys: { up: 2, down: 8, a: 6 },
+				colors: { pixels: ['#000000', '#ffffff'] }
+			}
+		}
+	},
+	{
+		title: 'Plain',
+		description: 'No platform given',
+		roms: { bbbb000000000000000000000000000000000000: { platforms: [] } }
+	}
+]);
+
+function lookup(hash: string): ROMInfo {
+	const info = ROMDatabase.parse(PROGRAMS).lookup(hash);
+	if (!info) {
+		throw Error(`${hash} missing from test database`);
+	}
+	return info;
+}
+
+describe('program database', () => {
+	it('looks up ROMs by hash in any case', () => {
+		const database = ROMDatabase.parse(PROGRAMS);
+
+		expect(database.size).toBe(2);
+		expect(database.lookup('aaaa000000000000000000000000000000000000')?.title).toBe('Test Game');
+		expect(database.lookup('BBBB000000000000000000000000000000000000')?.description).toBe('No platform given');
+		expect(database.lookup('cccc000000000000000000000000000000000000')).toBeUndefined();
+	});
+
+	it('rejects files which are not a program list', () => {
+		expect(() => ROMDatabase.parse('{"roms": {}}')).toThrowError(/database/);
+		expect(() => ROMDatabase.parse('[{"title": "No ROMs"}]')).toThrowError(/database/);
+	});
+
+	it('configures the first supported platform with its quirks, tickrate and colours', () => {
+		const info = lookup('aaaa000000000000000000000000000000000000');
+		const { settings, palette } = configureROM(info);
+
+		expect(info.platform).toBe('superchip');
+		expect(settings.quirksPreset).toBe('schip');
+		expect(settings.quirks).toEqual({ ...QUIRKS_PRESETS.schip, clipSprites: false });
+		expect(settings.cyclesPerFrame).toBe(30);
+		expect(palette?.colors).toEqual(['#000000', '#ffffff', '#ffffff', '#ffffff']);
+	});
+
+	it('leaves settings alone for ROMs without a known platform', () => {
+		const info = lookup('bbbb000000000000000000000000000000000000');
+
+		expect(configureROM(info)).toEqual({ settings: {}, palette: null });
+	});
+
+	it('translates database quirk names', () => {
+		expect(translateQuirks({ shift: true, logic: false, vblank: true })).toEqual({
+			shiftUsesVY: false,
+			vfReset: false,
+			displayWait: true
+		});
+	});
+
+	it('binds the arrow keys to key hints', () => {
+		const hinted = applyKeyHints(defaultBindings(), { up: 2, a: 6 });
+
+		expect(hinted.keyboard.ArrowUp).toBe(2);
+		expect(keyboardBindingsFor(hinted, 6)).toContain('Space');
+		expect(describeKeyHints({ up: 2, a: 0xc })).toBe('↑ 2, A C');
+	});
+});
@@ -0,0 +1,255 @@
+import { QUIRKS_PRESET_NAMES, resolveQuirks, type Quirks, type QuirksPreset } from "./quirks";
+import { GAMEPAD_BUTTONS, bindGamepad, bindKeyboard, type KeyBindings } from "./input";
+import type { Palette } from "./palettes";
+import type { ROMSettings } from "./library";
+import { deletePreference, readPreference, writePreference } from "./preferences";
+
+/** Directions and buttons the database gives key hints for */
+export type KeyHint = "up" | "down" | "left" | "right" | "a" | "b";
+
+/**
+ * A single ROM of a program, as described by `programs.json`
+ */
+export interface DatabaseROM {
+    file?: string;
+    embeddedTitle?: string;
+    description?: string;
+    /** Platform IDs the ROM runs on, most suitable first */
+    platforms: string[];
+    /** Quirks which differ from a platform's usual behaviour, by platform ID then quirk name */
+    quirkyPlatforms?: Record<string, Record<string, boolean>>;
+    /** Instructions per frame */
+    tickrate?: number;
+    /** Keypad keys the ROM uses for each direction and button */
+    keys?: Partial<Record<KeyHint, number>>;
+    colors?: {
+        /** Colours by plane bit mask, as CSS hex colours */
+        pixels?: string[];
+        buzzer?: string;
+        silence?: string;
+    };
+}
+
+/**
+ * A program, as described by `programs.json`
+ */
+export interface DatabaseProgram {
+    title: string;
+    description?: string;
+    release?: string;
+    authors?: string[];
+    roms: Record<string, DatabaseROM>;
+}
+
+/**
+ * Everything known about a single ROM
+ */
+export interface ROMInfo {
+    title: string;
+    description: string;
+    authors: string[];
+    release: string | null;
+    /** ID of the platform the ROM is best run on, or null if the database names none */
+    platform: string | null;
+    rom: DatabaseROM;
+}
+
+/**
+ * How each database platform is emulated: a quirks preset, adjusted where the platform differs
+ */
+export const PLATFORMS: Record<string, { name: string; preset: QuirksPreset; overrides?: Partial<Quirks> }> = {
+    originalChip8: { name: "CHIP-8", preset: "vip" },
+    hybridVIP: { name: "CHIP-8 (hybrid VIP)", preset: "vip" },
+    chip8x: { name: "CHIP-8X", preset: "vip" },
+    modernChip8: { name: "Modern CHIP-8", preset: "xochip", overrides: { clipSprites: true, memory4K: true } },
+    chip48: { name: QUIRKS_PRESET_NAMES.chip48, preset: "chip48" },
+    superchip1: { name: "SUPER-CHIP 1.0", preset: "schip" },
+    superchip: { name: QUIRKS_PRESET_NAMES.schip, preset: "schip" },
+    megachip8: { name: "MEGA-CHIP", preset: "schip", overrides: { memory4K: false } },
+    xochip: { name: QUIRKS_PRESET_NAMES.xochip, preset: "xochip" },
+};
+
+/**
+ * Translates the database's quirk names, which mostly describe the opposite behaviour to ours
+ * @param quirks quirk flags by database name
+ */
+export function translateQuirks(quirks: Record<string, boolean>): Partial<Quirks> {
+    const translated: Partial<Quirks> = {};
+    if (quirks.shift !== undefined) {
+        translated.shiftUsesVY = !quirks.shift;
+    }
+    if (quirks.memoryLeaveIUnchanged !== undefined) {
+        translated.loadStoreIncrementsI = !quirks.memoryLeaveIUnchanged;
+    }
+    if (quirks.wrap !== undefined) {
+        translated.clipSprites = !quirks.wrap;
+    }
+    if (quirks.jump !== undefined) {
+        translated.jumpUsesVX = quirks.jump;
+    }
+    if (quirks.vblank !== undefined) {
+        translated.displayWait = quirks.vblank;
+    }
+    if (quirks.logic !== undefined) {
+        translated.vfReset = quirks.logic;
+    }
+    return translated;
+}
+
+/**
+ * The community CHIP-8 program database (https://github.com/chip-8/chip-8-database), indexed by ROM hash
+ */
+export class ROMDatabase {
+    private byHash = new Map<string, ROMInfo>();
+
+    /**
+     * @param programs contents of `programs.json`
+     */
+    public constructor(programs: DatabaseProgram[]) {
+        for (const program of programs) {
+            for (const [hash, rom] of Object.entries(program.roms ?? {})) {
+                const platform = rom.platforms?.find((id) => id in PLATFORMS) ?? null;
+                this.byHash.set(hash.toLowerCase(), {
+                    title: program.title,
+                    description: rom.description ?? program.description ?? "",
+                    authors: program.authors ?? [],
+                    release: program.release ?? null,
+                    platform,
+                    rom,
+                });
+            }
+        }
+    }
+
+    /**
+     * Parses the text of `programs.json`
+     * @param text JSON text
+     */
+    public static parse(text: string): ROMDatabase {
+        const programs = JSON.parse(text);
+        if (!Array.isArray(programs) || programs.some((program) => typeof program?.roms !== "object")) {
+            throw Error("Not a CHIP-8 program database");
+        }
+        return new ROMDatabase(programs);
+    }
+
+    /** Number of ROMs in the database */
+    public get size(): number {
+        return this.byHash.size;
+    }
+
+    /**
+     * @param hash SHA-1 hash of the ROM
+     * @returns what the database knows about the ROM, or undefined if it is not listed
+     */
+    public lookup(hash: string): ROMInfo | undefined {
+        return this.byHash.get(hash.toLowerCase());
+    }
+}
+
+/**
+ * Works out the settings a ROM expects
+ * @param info database entry of the ROM
+ * @returns settings to apply, and the ROM's own palette if it has one
+ */
+export function configureROM(info: ROMInfo): { settings: ROMSettings; palette: Palette | null } {
+    const settings: ROMSettings = {};
+    const platform = info.platform ? PLATFORMS[info.platform] : undefined;
+    if (info.platform && platform) {
+        const quirky = translateQuirks(info.rom.quirkyPlatforms?.[info.platform] ?? {});
+        settings.quirksPreset = platform.preset;
+        settings.quirks = resolveQuirks(platform.preset, { ...platform.overrides, ...quirky });
+    }
+    if (info.rom.tickrate !== undefined && info.rom.tickrate >= 1) {
+        settings.cyclesPerFrame = Math.round(info.rom.tickrate);
+    }
+
+    let palette: Palette | null = null;
+    const pixels = info.rom.colors?.pixels;
+    if (pixels && pixels.length >= 2) {
+        palette = { name: info.title, colors: [pixels[0], pixels[1], pixels[2] ?? pixels[1], pixels[3] ?? pixels[1]] };
+        settings.paletteName = palette.name;
+    }
+
+    return { settings, palette };
+}
+
+/**
+ * Binds the arrow keys, D-pad and A/B buttons to the keys a ROM uses for them
+ * @param bindings bindings to start from
+ * @param keys key hints of the ROM
+ * @returns new bindings
+ */
+export function applyKeyHints(bindings: KeyBindings, keys: Partial<Record<KeyHint, number>>): KeyBindings {
+    const inputs: Record<KeyHint, [string | null, number]> = {
+        up: ["ArrowUp", GAMEPAD_BUTTONS.Up],
+        down: ["ArrowDown", GAMEPAD_BUTTONS.Down],
+        left: ["ArrowLeft", GAMEPAD_BUTTONS.Left],
+        right: ["ArrowRight", GAMEPAD_BUTTONS.Right],
+        a: ["Space", GAMEPAD_BUTTONS.A],
+        b: [null, GAMEPAD_BUTTONS.B],
+    };
+
+    let hinted = bindings;
+    for (const [hint, key] of Object.entries(keys) as Array<[KeyHint, number]>) {
+        if (!(hint in inputs)) {
+            continue;
+        }
+        const [code, button] = inputs[hint];
+        if (code) {
+            hinted = bindKeyboard(hinted, code, key);
+        }
+        hinted = bindGamepad(hinted, button, key);
+    }
+    return hinted;
+}
+
+/**
+ * Describes a ROM's controls for display, e.g. `↑ 5, ↓ 8, A 6`
+ */
+export function describeKeyHints(keys: Partial<Record<KeyHint, number>>): string {
+    const labels: Record<KeyHint, string> = { up: "↑", down: "↓", left: "←", right: "→", a: "A", b: "B" };
+    return (Object.entries(keys) as Array<[KeyHint, number]>)
+        .filter(([hint]) => hint in labels)
+        .map(([hint, key]) => `${labels[hint]} ${key.toString(16).toUpperCase()}`)
+        .join(", ");
+}
+
+/** Preference key of a database imported by the user */
+const IMPORTED_DATABASE_KEY = "chip8Database";
+/** Copy of `programs.json` served with the app */
+const BUNDLED_DATABASE_URL = "/chip-8-database/programs.json";
+
+/**
+ * Loads the database imported by the user, or else the bundled copy
+ */
+export async function loadDatabase(): Promise<ROMDatabase> {
+    const imported = await readPreference<DatabaseProgram[]>(IMPORTED_DATABASE_KEY);
+    if (imported) {
+        return new ROMDatabase(imported);
+    }
+
+    const response = await fetch(BUNDLED_DATABASE_URL);
+    if (!response.ok) {
+        throw Error(`Failed to fetch program database: ${response.status} ${response.statusText}`);
+    }
+    return ROMDatabase.parse(await response.text());
+}
+
+/**
+ * Replaces the bundled database with a newer `programs.json`, remembered across visits
+ * @param text JSON text of `programs.json`
+ */
+export async function importDatabase(text: string): Promise<ROMDatabase> {
+    const database = ROMDatabase.parse(text);
+    await writePreference(IMPORTED_DATABASE_KEY, JSON.parse(text) as DatabaseProgram[]);
+    return database;
+}
+
+/**
+ * Forgets an imported database, going back to the bundled copy
+ */
+export async function forgetImportedDatabase(): Promise<ROMDatabase> {
+    await deletePreference(IMPORTED_DATABASE_KEY);
+    return await loadDatabase();
+}
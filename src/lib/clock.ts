@@ -0,0 +1,62 @@
+/**
+ * Source of the 60 Hz ticks which drive the delay and sound timers.
+ */
+export interface Clock {
+    /**
+     * Starts ticking
+     * @param onTick callback to run on every tick
+     */
+    start(onTick: () => void): void;
+
+    /**
+     * Stops ticking
+     */
+    stop(): void;
+}
+
+/** Tick rate of the CHIP-8 timers in Hz */
+export const TIMER_HZ = 60;
+
+/**
+ * Clock backed by `setInterval`.
+ */
+export class IntervalClock implements Clock {
+    private handle: ReturnType<typeof setInterval> | null = null;
+
+    public start(onTick: () => void) {
+        this.stop();
+        this.handle = setInterval(onTick, 1000 / TIMER_HZ);
+    }
+
+    public stop() {
+        if (this.handle !== null) {
+            clearInterval(this.handle);
+            this.handle = null;
+        }
+    }
+}
+
+/**
+ * Clock which only ticks when told to. Used to drive the emulator deterministically.
+ */
+export class ManualClock implements Clock {
+    private onTick: (() => void) | null = null;
+
+    public start(onTick: () => void) {
+        this.onTick = onTick;
+    }
+
+    public stop() {
+        this.onTick = null;
+    }
+
+    /**
+     * Advances the clock
+     * @param count number of ticks to run
+     */
+    public tick(count = 1) {
+        for (let i = 0; i < count; i++) {
+            this.onTick?.();
+        }
+    }
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { assemble } from './assembler';
+import Chip8 from './emulator';
+import { FramebufferDisplay } from './display';
+import { MOVIE_VERSION, replayMovie } from './movie';
+import { resolveQuirks, type QuirksPreset } from './quirks';
+
+/** Test ROM sources, with their golden framebuffers in `golden/` */
+const ROMS_DIR = new URL('./test_roms/', import.meta.url);
+/** Run with `UPDATE_GOLDEN=1` to rewrite the golden framebuffers from the current output */
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+/** Frames every ROM runs for; enough for each to finish */
+const FRAMES = 180;
+const CYCLES_PER_FRAME = 15;
+
+const PRESETS: QuirksPreset[] = ['vip', 'chip48', 'schip', 'xochip'];
+
+/**
+ * Assembles a test ROM, followed by the shared result reporting routines
+ */
+function loadTestROM(name: string): Uint8Array {
+	const source = readFileSync(new URL(`${name}.8o`, ROMS_DIR), 'utf8');
+	const report = readFileSync(new URL('report.8o', ROMS_DIR), 'utf8');
+	const { rom, errors } = assemble(`${source}\n${report}`);
+	if (errors.length > 0) {
+		throw Error(`${name}.8o: ${errors.map((err) => `line ${err.line}: ${err.message}`).join('; ')}`);
+	}
+	return rom;
+}
+
+/**
+ * Draws the display as text: a row of characters per row of pixels, with `.` for unset
+ * pixels and the plane bit mask for set ones
+ */
+function renderDisplay(display: FramebufferDisplay): string {
+	let text = '';
+	for (let y = 0; y < display.vHeight; y++) {
+		const row = display.pixels.subarray(y * display.vWidth, (y + 1) * display.vWidth);
+		text += Array.from(row, (pixel) => (pixel === 0 ? '.' : pixel.toString())).join('') + '\n';
+	}
+	return text;
+}
+
+/**
+ * Runs a test ROM for `FRAMES` frames
+ * @param name name of the ROM source, without `.8o`
+ * @param preset quirks to run with
+ * @param keys keypad state from each listed frame onwards, as bit masks
+ * @returns the final display, drawn by `renderDisplay()`
+ */
+function runTestROM(name: string, preset: QuirksPreset, keys: Record<number, number> = {}): string {
+	const frames: number[] = [];
+	for (let frame = 0; frame < FRAMES; frame++) {
+		frames.push(keys[frame] ?? frames[frame - 1] ?? 0);
+	}
+
+	const display = new FramebufferDisplay();
+	const chip8 = new Chip8(display);
+	const movie = {
+		version: MOVIE_VERSION,
+		romHash: name,
+		quirks: resolveQuirks(preset),
+		cyclesPerFrame: CYCLES_PER_FRAME,
+		seed: 1,
+		frames
+	};
+	replayMovie(chip8, loadTestROM(name), movie);
+
+	expect(chip8.getFault()).toBeNull();
+	return renderDisplay(display);
+}
+
+function expectGolden(name: string, actual: string) {
+	const path = new URL(`golden/${name}.txt`, ROMS_DIR);
+	if (UPDATE_GOLDEN) {
+		writeFileSync(path, actual);
+		return;
+	}
+	if (!existsSync(path)) {
+		throw Error(`No golden framebuffer for ${name}; run with UPDATE_GOLDEN=1 to create it`);
+	}
+
+	expect(actual).toBe(readFileSync(path, 'utf8'));
+}
+
+describe('conformance ROMs', () => {
+	it.each(PRESETS)('passes the flags test with %s quirks', (preset) => {
+		expectGolden('flags', runTestROM('flags', preset));
+	});
+
+	it.each(PRESETS)('passes the opcodes test with %s quirks', (preset) => {
+		expectGolden('opcodes', runTestROM('opcodes', preset));
+	});
+
+	it.each(PRESETS)('shows the %s quirks', (preset) => {
+		expectGolden(`quirks-${preset}`, runTestROM('quirks', preset));
+	});
+
+	it('reads the keypad', () => {
+		// Key 0, then A for FX0A; then 3, A and F held together
+		const keys = { 10: 1 << 0x0, 12: 0, 20: 1 << 0xa, 22: 0, 30: (1 << 0x3) | (1 << 0xa) | (1 << 0xf) };
+
+		expectGolden('keypad', runTestROM('keypad', 'vip', keys));
+	});
+});
@@ -0,0 +1,64 @@
+/** Name of the IndexedDB database holding all persisted emulator data */
+const DB_NAME = "chippy";
+/** Schema version; bump and extend `upgradeDatabase` when adding stores */
+const DB_VERSION = 3;
+
+/** Object store of save state slots, keyed by `[romHash, slot]` */
+export const SAVE_STATES_STORE = "saveStates";
+/** Object store of user preferences, keyed by preference name */
+export const PREFERENCES_STORE = "preferences";
+/** Object store of the ROM library, keyed by ROM hash */
+export const ROMS_STORE = "roms";
+
+/**
+ * Creates the object stores missing from an older database version
+ */
+function upgradeDatabase(db: IDBDatabase, oldVersion: number) {
+    if (oldVersion < 1) {
+        const saveStates = db.createObjectStore(SAVE_STATES_STORE, { keyPath: ["romHash", "slot"] });
+        saveStates.createIndex("romHash", "romHash");
+    }
+    if (oldVersion < 2) {
+        db.createObjectStore(PREFERENCES_STORE);
+    }
+    if (oldVersion < 3) {
+        db.createObjectStore(ROMS_STORE, { keyPath: "hash" });
+    }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the emulator's database, creating or upgrading it as needed.
+ *
+ * The connection is shared between callers.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (ev) => {
+                upgradeDatabase(request.result, ev.oldVersion);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+
+    return dbPromise;
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ * @param request request to wait for
+ * @returns the request's result
+ */
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import Debugger from './debugger';
+import { load, rom, run } from './test_helpers';
+
+function setup(program: Uint8Array) {
+	const chip8 = load(program);
+	return { chip8, emuDebugger: new Debugger(chip8) };
+}
+
+// 0x200: V0 = 1; call 0x20A; V0 = 3; spin
+// 0x20A: V1 = 2; V2 = 3; return
+const CALL_PROGRAM = rom(0x6001, 0x220a, 0x6003, 0x1206, 0x0000, 0x6102, 0x6203, 0x00ee);
+
+describe('Debugger', () => {
+	it('pauses at PC breakpoints and resumes past them', () => {
+		const { chip8, emuDebugger } = setup(CALL_PROGRAM);
+		emuDebugger.toggleBreakpoint(0x204);
+
+		run(chip8, 10);
+		expect(emuDebugger.isPaused()).toBe(true);
+		expect(chip8.inspect().pc).toBe(0x204);
+
+		emuDebugger.resume();
+		run(chip8, 1);
+		expect(chip8.inspect().pc).toBe(0x206);
+		expect(chip8.inspect().v[0]).toBe(3);
+	});
+
+	it('steps into, over and out of subroutines', () => {
+		const { chip8, emuDebugger } = setup(CALL_PROGRAM);
+		emuDebugger.pause();
+
+		emuDebugger.stepInto();
+		expect(chip8.inspect().pc).toBe(0x202);
+
+		emuDebugger.stepOver();
+		run(chip8, 10);
+		expect(emuDebugger.isPaused()).toBe(true);
+		expect(chip8.inspect().pc).toBe(0x204);
+		expect(chip8.inspect().v[2]).toBe(3);
+
+		chip8.loadROM(CALL_PROGRAM);
+		emuDebugger.stepInto();
+		emuDebugger.stepInto();
+		emuDebugger.stepInto();
+		expect(chip8.inspect().callStack).toEqual([0x204]);
+
+		emuDebugger.stepOut();
+		run(chip8, 10);
+		expect(chip8.inspect().pc).toBe(0x204);
+		expect(chip8.inspect().callStack).toEqual([]);
+	});
+
+	it('pauses on register conditions', () => {
+		const { chip8, emuDebugger } = setup(CALL_PROGRAM);
+		emuDebugger.addCondition({ pc: null, register: 'V1', comparison: '==', value: 2 });
+
+		run(chip8, 10);
+		expect(emuDebugger.isPaused()).toBe(true);
+		expect(chip8.inspect().pc).toBe(0x20c);
+	});
+
+	it('pauses after an instruction writes a watched address', () => {
+		// V0 = 0x2A; I = 0x300; store V0; V0 = 0
+		const { chip8, emuDebugger } = setup(rom(0x602a, 0xa300, 0xf055, 0x6000));
+		emuDebugger.toggleWatchpoint(0x300);
+
+		run(chip8, 10);
+		expect(emuDebugger.isPaused()).toBe(true);
+		expect(emuDebugger.getPauseReason()).toMatch(/0x300/);
+		expect(chip8.inspect().pc).toBe(0x206);
+	});
+});
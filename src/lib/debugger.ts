@@ -0,0 +1,326 @@
+import type Chip8 from "./emulator";
+import type { Chip8Registers } from "./emulator";
+
+/** Registers a conditional breakpoint can test */
+export type RegisterName =
+    | "V0" | "V1" | "V2" | "V3" | "V4" | "V5" | "V6" | "V7"
+    | "V8" | "V9" | "VA" | "VB" | "VC" | "VD" | "VE" | "VF"
+    | "I" | "DT" | "ST";
+
+export const REGISTER_NAMES: RegisterName[] = [
+    "V0", "V1", "V2", "V3", "V4", "V5", "V6", "V7",
+    "V8", "V9", "VA", "VB", "VC", "VD", "VE", "VF",
+    "I", "DT", "ST",
+];
+
+export type Comparison = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+export const COMPARISONS: Comparison[] = ["==", "!=", "<", "<=", ">", ">="];
+
+/**
+ * Breakpoint which pauses when a register compares true against a value
+ */
+export interface ConditionalBreakpoint {
+    id: number;
+    /** Only tested when PC is here; tested before every instruction when null */
+    pc: number | null;
+    register: RegisterName;
+    comparison: Comparison;
+    value: number;
+}
+
+/** Opcode category of 2NNN subroutine calls */
+const CALL_CATEGORY = 0x2;
+
+/**
+ * Reads a register by name from a register snapshot
+ */
+export function readRegister(registers: Chip8Registers, name: RegisterName): number {
+    switch (name) {
+        case "I":
+            return registers.i;
+        case "DT":
+            return registers.delayTimer;
+        case "ST":
+            return registers.soundTimer;
+        default:
+            return registers.v[parseInt(name.substring(1), 16)];
+    }
+}
+
+function compare(lhs: number, comparison: Comparison, rhs: number): boolean {
+    switch (comparison) {
+        case "==":
+            return lhs === rhs;
+        case "!=":
+            return lhs !== rhs;
+        case "<":
+            return lhs < rhs;
+        case "<=":
+            return lhs <= rhs;
+        case ">":
+            return lhs > rhs;
+        case ">=":
+            return lhs >= rhs;
+    }
+}
+
+/**
+ * Formats an address or value as uppercase hex
+ * @param value number to format
+ * @param digits minimum number of hex digits
+ * @param prefix whether to prefix the digits with 0x
+ */
+export function hex(value: number, digits = 3, prefix = true): string {
+    const text = value.toString(16).toUpperCase().padStart(digits, "0");
+    return prefix ? `0x${text}` : text;
+}
+
+/**
+ * Controls execution of a Chip8 through its step and memory write hooks.
+ *
+ * While paused, every instruction the run loop attempts is vetoed, so the loop itself
+ * does not need to know about the debugger.
+ */
+export default class Debugger {
+    private chip8: Chip8;
+    private detachHooks: Array<() => void>;
+
+    /** PC breakpoints */
+    private breakpoints = new Set<number>();
+    /** Memory write watchpoints */
+    private watchpoints = new Set<number>();
+    private conditions: ConditionalBreakpoint[] = [];
+    private nextConditionId = 1;
+
+    private paused = false;
+    private pauseReason: string | null = null;
+
+    /** Lets a single instruction through while paused */
+    private allowOnce = false;
+    /** Skips breakpoint checks for the first instruction after resuming */
+    private skipChecksOnce = false;
+    /** Pause once the call stack is no deeper than this; used by step over and step out */
+    private runUntilDepth: number | null = null;
+    /** Reason to pause before the next instruction, set when a watchpoint is written */
+    private pendingPause: string | null = null;
+
+    private changeListeners: Array<() => void> = [];
+
+    public constructor(chip8: Chip8) {
+        this.chip8 = chip8;
+        this.detachHooks = [
+            chip8.onBeforeStep((pc) => this.beforeStep(pc)),
+            chip8.onMemoryWrite((addr, value) => {
+                if (this.watchpoints.has(addr)) {
+                    this.pendingPause = `Watchpoint: ${hex(addr)} written with ${hex(value, 2)}`;
+                }
+            }),
+        ];
+    }
+
+    /**
+     * Removes the debugger's hooks from the emulator and lets it run freely
+     */
+    public detach() {
+        this.detachHooks.forEach((detach) => detach());
+        this.detachHooks = [];
+        this.chip8.freezeTimers(false);
+    }
+
+    /**
+     * Registers a listener for changes to the pause state or breakpoints
+     * @param listener listener to add
+     * @returns function which removes the listener
+     */
+    public onChange(listener: () => void): () => void {
+        this.changeListeners.push(listener);
+        return () => {
+            this.changeListeners = this.changeListeners.filter((other) => other !== listener);
+        };
+    }
+
+    private notify() {
+        this.changeListeners.forEach((listener) => listener());
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * Why execution last paused, or null while running
+     */
+    public getPauseReason(): string | null {
+        return this.pauseReason;
+    }
+
+    private callDepth(): number {
+        return this.chip8.inspect().callStack.length;
+    }
+
+    private beforeStep(pc: number): boolean {
+        if (this.paused) {
+            const allowed = this.allowOnce;
+            this.allowOnce = false;
+            return allowed;
+        }
+
+        if (this.skipChecksOnce) {
+            this.skipChecksOnce = false;
+            return true;
+        }
+
+        if (this.pendingPause) {
+            this.pause(this.pendingPause);
+            return false;
+        }
+
+        if (this.runUntilDepth !== null && this.callDepth() <= this.runUntilDepth) {
+            this.pause("Step complete");
+            return false;
+        }
+
+        if (this.breakpoints.has(pc)) {
+            this.pause(`Breakpoint at ${hex(pc)}`);
+            return false;
+        }
+
+        for (const condition of this.conditions) {
+            if (condition.pc !== null && condition.pc !== pc) {
+                continue;
+            }
+
+            const registers = this.chip8.inspect();
+            if (compare(readRegister(registers, condition.register), condition.comparison, condition.value)) {
+                this.pause(`Condition ${condition.register} ${condition.comparison} ${hex(condition.value, 2)} at ${hex(pc)}`);
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Pauses execution before the next instruction
+     * @param reason reason shown to the user
+     */
+    public pause(reason = "Paused") {
+        this.paused = true;
+        this.pauseReason = reason;
+        this.runUntilDepth = null;
+        this.pendingPause = null;
+        this.chip8.freezeTimers(true);
+        this.notify();
+    }
+
+    /**
+     * Continues execution, ignoring any breakpoint at the current PC
+     */
+    public resume() {
+        this.paused = false;
+        this.pauseReason = null;
+        this.skipChecksOnce = true;
+        this.chip8.freezeTimers(false);
+        this.notify();
+    }
+
+    /**
+     * Executes a single instruction while paused
+     */
+    public stepInto() {
+        if (!this.paused) {
+            this.pause();
+        }
+
+        this.allowOnce = true;
+        this.chip8.step();
+        this.allowOnce = false;
+        this.pendingPause = null;
+        this.pauseReason = "Stepped";
+        this.notify();
+    }
+
+    /**
+     * Executes the next instruction, running a called subroutine to completion
+     */
+    public stepOver() {
+        const opcode = this.chip8.peekOpcode();
+        if (opcode >> 12 !== CALL_CATEGORY) {
+            this.stepInto();
+            return;
+        }
+
+        const depth = this.callDepth();
+        this.resume();
+        this.runUntilDepth = depth;
+    }
+
+    /**
+     * Runs until the current subroutine returns
+     */
+    public stepOut() {
+        const depth = this.callDepth();
+        if (depth === 0) {
+            return;
+        }
+
+        this.resume();
+        this.runUntilDepth = depth - 1;
+    }
+
+    public getBreakpoints(): number[] {
+        return Array.from(this.breakpoints).sort((a, b) => a - b);
+    }
+
+    public hasBreakpoint(pc: number): boolean {
+        return this.breakpoints.has(pc);
+    }
+
+    /**
+     * Adds a breakpoint at an address, or removes the one already there
+     * @param pc address of the breakpoint
+     */
+    public toggleBreakpoint(pc: number) {
+        if (!this.breakpoints.delete(pc)) {
+            this.breakpoints.add(pc);
+        }
+        this.notify();
+    }
+
+    public getConditions(): ConditionalBreakpoint[] {
+        return this.conditions.slice();
+    }
+
+    /**
+     * Adds a conditional breakpoint
+     * @param condition breakpoint to add
+     * @returns id of the new breakpoint
+     */
+    public addCondition(condition: Omit<ConditionalBreakpoint, "id">): number {
+        const id = this.nextConditionId++;
+        this.conditions.push({ ...condition, id });
+        this.notify();
+        return id;
+    }
+
+    public removeCondition(id: number) {
+        this.conditions = this.conditions.filter((condition) => condition.id !== id);
+        this.notify();
+    }
+
+    public getWatchpoints(): number[] {
+        return Array.from(this.watchpoints).sort((a, b) => a - b);
+    }
+
+    /**
+     * Adds a memory write watchpoint, or removes the one already there
+     * @param addr watched address
+     */
+    public toggleWatchpoint(addr: number) {
+        if (!this.watchpoints.delete(addr)) {
+            this.watchpoints.add(addr);
+        }
+        this.notify();
+    }
+}
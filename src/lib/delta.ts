@@ -0,0 +1,45 @@
+/**
+ * Sparse difference between two byte arrays
+ */
+export interface ByteDelta {
+    /** Length of the target array */
+    length: number;
+    /** Indices at which the target differs from the base */
+    indices: Uint32Array;
+    /** Target values at each index */
+    values: Uint8Array;
+}
+
+/**
+ * Records the bytes needed to produce `target` from `base`.
+ *
+ * When the lengths differ, every non-zero byte of `target` is recorded instead.
+ */
+export function diffBytes(base: Uint8Array, target: Uint8Array): ByteDelta {
+    const sameLength = base.length === target.length;
+    const indices: number[] = [];
+    for (let idx = 0; idx < target.length; idx++) {
+        if (sameLength ? base[idx] !== target[idx] : target[idx] !== 0) {
+            indices.push(idx);
+        }
+    }
+
+    return {
+        length: target.length,
+        indices: Uint32Array.from(indices),
+        values: Uint8Array.from(indices, (idx) => target[idx]),
+    };
+}
+
+/**
+ * Produces the target of a delta from its base
+ * @param base array the delta was taken against; left unmodified
+ * @param delta delta to apply
+ */
+export function applyBytes(base: Uint8Array, delta: ByteDelta): Uint8Array {
+    const result = base.length === delta.length ? base.slice() : new Uint8Array(delta.length);
+    for (let n = 0; n < delta.indices.length; n++) {
+        result[delta.indices[n]] = delta.values[n];
+    }
+    return result;
+}
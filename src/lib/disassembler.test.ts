@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { decodeInstruction, disassembleRange, findReachableCode } from './disassembler';
+
+function memoryWith(addr: number, ...bytes: number[]): Uint8Array {
+	const memory = new Uint8Array(0x1000);
+	memory.set(bytes, addr);
+	return memory;
+}
+
+describe('decodeInstruction', () => {
+	it('renders Octo and Cowgod syntax', () => {
+		const memory = memoryWith(0x200, 0x8a, 0xb4, 0xd0, 0x15, 0xf3, 0x33);
+
+		expect(decodeInstruction(memory, 0x200, 'octo')?.text).toBe('vA += vB');
+		expect(decodeInstruction(memory, 0x200, 'cowgod')?.text).toBe('ADD VA, VB');
+		expect(decodeInstruction(memory, 0x202, 'octo')?.text).toBe('sprite v0 v1 5');
+		expect(decodeInstruction(memory, 0x202, 'cowgod')?.text).toBe('DRW V0, V1, 5');
+		expect(decodeInstruction(memory, 0x204, 'octo')?.text).toBe('bcd v3');
+		expect(decodeInstruction(memory, 0x204, 'cowgod')?.text).toBe('LD B, V3');
+	});
+
+	it('decodes the XO-CHIP long I load as one 4-byte instruction', () => {
+		const memory = memoryWith(0x200, 0xf0, 0x00, 0x12, 0x34);
+
+		expect(decodeInstruction(memory, 0x200, 'octo')).toEqual({ size: 4, text: 'i := long 0x1234' });
+	});
+
+	it('rejects invalid opcodes', () => {
+		const memory = memoryWith(0x200, 0x81, 0x2f, 0xe1, 0x00);
+
+		expect(decodeInstruction(memory, 0x200, 'octo')).toBeNull();
+		expect(decodeInstruction(memory, 0x202, 'cowgod')).toBeNull();
+	});
+});
+
+describe('findReachableCode', () => {
+	it('follows jumps, calls and skips but not into data', () => {
+		const memory = memoryWith(
+			0x200,
+			// 0x200: call 0x20A; skip if v0 == 1; jump 0x20C; jump 0x200
+			0x22, 0x0a, 0x30, 0x01, 0x12, 0x0c, 0x12, 0x00,
+			// 0x208: sprite data
+			0xff, 0x81,
+			// 0x20A: return; 0x20C: exit
+			0x00, 0xee, 0x00, 0xfd
+		);
+
+		const code = findReachableCode(memory);
+		expect([...code].sort()).toEqual([0x200, 0x202, 0x204, 0x206, 0x20a, 0x20c]);
+	});
+});
+
+describe('disassembleRange', () => {
+	it('lists unreachable bytes as data', () => {
+		const memory = memoryWith(0x200, 0x12, 0x04, 0xf0, 0x90, 0x00, 0xe0);
+		const code = findReachableCode(memory);
+
+		expect(disassembleRange(memory, 0x200, 0x206, 'octo', code)).toEqual([
+			{ addr: 0x200, bytes: [0x12, 0x04], text: 'jump 0x204', isCode: true },
+			{ addr: 0x202, bytes: [0xf0, 0x90], text: '0xF0 0x90', isCode: false },
+			{ addr: 0x204, bytes: [0x00, 0xe0], text: 'clear', isCode: true }
+		]);
+	});
+});
@@ -0,0 +1,386 @@
+/** Assembly syntax to render instructions in */
+export type Syntax = "octo" | "cowgod";
+
+/**
+ * A single line of a listing: one instruction, or a run of data bytes
+ */
+export interface DisassembledLine {
+    addr: number;
+    /** Raw bytes covered by the line */
+    bytes: number[];
+    text: string;
+    /** Whether the line is an instruction reachable from the entry point */
+    isCode: boolean;
+}
+
+/**
+ * A decoded instruction
+ */
+export interface DecodedInstruction {
+    /** Length in bytes; 4 for the XO-CHIP long I load, 2 otherwise */
+    size: number;
+    text: string;
+}
+
+/** Program start location */
+export const ENTRY_POINT = 0x200;
+
+/** Maximum number of data bytes shown on one line */
+const DATA_BYTES_PER_LINE = 4;
+
+function octoHex(value: number, digits: number): string {
+    return `0x${value.toString(16).toUpperCase().padStart(digits, "0")}`;
+}
+
+function cowgodHex(value: number, digits: number): string {
+    return `#${value.toString(16).toUpperCase().padStart(digits, "0")}`;
+}
+
+function reg(idx: number, syntax: Syntax): string {
+    const name = idx.toString(16).toUpperCase();
+    return syntax === "octo" ? `v${name}` : `V${name}`;
+}
+
+/**
+ * Renders an opcode in Octo syntax
+ * @returns the text, or null if the opcode is not a valid instruction
+ */
+function octoText(opcode: number, longAddr: number): string | null {
+    const x = reg((opcode >> 8) & 0xF, "octo");
+    const y = reg((opcode >> 4) & 0xF, "octo");
+    const n = opcode & 0xF;
+    const nn = octoHex(opcode & 0xFF, 2);
+    const nnn = octoHex(opcode & 0xFFF, 3);
+
+    switch (opcode >> 12) {
+        case 0x0:
+            if ((opcode & 0xFFF0) === 0x00C0) {
+                return `scroll-down ${n}`;
+            }
+            if ((opcode & 0xFFF0) === 0x00D0) {
+                return `scroll-up ${n}`;
+            }
+            switch (opcode) {
+                case 0x00E0: return "clear";
+                case 0x00EE: return "return";
+                case 0x00FB: return "scroll-right";
+                case 0x00FC: return "scroll-left";
+                case 0x00FD: return "exit";
+                case 0x00FE: return "lores";
+                case 0x00FF: return "hires";
+            }
+            return null;
+        case 0x1: return `jump ${nnn}`;
+        case 0x2: return `:call ${nnn}`;
+        case 0x3: return `if ${x} != ${nn} then`;
+        case 0x4: return `if ${x} == ${nn} then`;
+        case 0x5:
+            switch (n) {
+                case 0x0: return `if ${x} != ${y} then`;
+                case 0x2: return `save ${x} - ${y}`;
+                case 0x3: return `load ${x} - ${y}`;
+            }
+            return null;
+        case 0x6: return `${x} := ${nn}`;
+        case 0x7: return `${x} += ${nn}`;
+        case 0x8:
+            switch (n) {
+                case 0x0: return `${x} := ${y}`;
+                case 0x1: return `${x} |= ${y}`;
+                case 0x2: return `${x} &= ${y}`;
+                case 0x3: return `${x} ^= ${y}`;
+                case 0x4: return `${x} += ${y}`;
+                case 0x5: return `${x} -= ${y}`;
+                case 0x6: return `${x} >>= ${y}`;
+                case 0x7: return `${x} =- ${y}`;
+                case 0xE: return `${x} <<= ${y}`;
+            }
+            return null;
+        case 0x9: return n === 0 ? `if ${x} == ${y} then` : null;
+        case 0xA: return `i := ${nnn}`;
+        case 0xB: return `jump0 ${nnn}`;
+        case 0xC: return `${x} := random ${nn}`;
+        case 0xD: return `sprite ${x} ${y} ${n}`;
+        case 0xE:
+            switch (opcode & 0xFF) {
+                case 0x9E: return `if ${x} -key then`;
+                case 0xA1: return `if ${x} key then`;
+            }
+            return null;
+        case 0xF:
+            if (opcode === 0xF000) {
+                return `i := long ${octoHex(longAddr, 4)}`;
+            }
+            if (opcode === 0xF002) {
+                return "audio";
+            }
+            switch (opcode & 0xFF) {
+                case 0x01: return `plane ${(opcode >> 8) & 0xF}`;
+                case 0x07: return `${x} := delay`;
+                case 0x0A: return `${x} := key`;
+                case 0x15: return `delay := ${x}`;
+                case 0x18: return `buzzer := ${x}`;
+                case 0x1E: return `i += ${x}`;
+                case 0x29: return `i := hex ${x}`;
+                case 0x30: return `i := bighex ${x}`;
+                case 0x33: return `bcd ${x}`;
+                case 0x3A: return `pitch := ${x}`;
+                case 0x55: return `save ${x}`;
+                case 0x65: return `load ${x}`;
+                case 0x75: return `saveflags ${x}`;
+                case 0x85: return `loadflags ${x}`;
+            }
+            return null;
+    }
+
+    return null;
+}
+
+/**
+ * Renders an opcode in the classic Cowgod reference syntax
+ * @returns the text, or null if the opcode is not a valid instruction
+ */
+function cowgodText(opcode: number, longAddr: number): string | null {
+    const x = reg((opcode >> 8) & 0xF, "cowgod");
+    const y = reg((opcode >> 4) & 0xF, "cowgod");
+    const n = opcode & 0xF;
+    const nn = cowgodHex(opcode & 0xFF, 2);
+    const nnn = cowgodHex(opcode & 0xFFF, 3);
+
+    switch (opcode >> 12) {
+        case 0x0:
+            if ((opcode & 0xFFF0) === 0x00C0) {
+                return `SCD ${n}`;
+            }
+            if ((opcode & 0xFFF0) === 0x00D0) {
+                return `SCU ${n}`;
+            }
+            switch (opcode) {
+                case 0x00E0: return "CLS";
+                case 0x00EE: return "RET";
+                case 0x00FB: return "SCR";
+                case 0x00FC: return "SCL";
+                case 0x00FD: return "EXIT";
+                case 0x00FE: return "LOW";
+                case 0x00FF: return "HIGH";
+            }
+            return null;
+        case 0x1: return `JP ${nnn}`;
+        case 0x2: return `CALL ${nnn}`;
+        case 0x3: return `SE ${x}, ${nn}`;
+        case 0x4: return `SNE ${x}, ${nn}`;
+        case 0x5:
+            switch (n) {
+                case 0x0: return `SE ${x}, ${y}`;
+                case 0x2: return `SAVE ${x}, ${y}`;
+                case 0x3: return `LOAD ${x}, ${y}`;
+            }
+            return null;
+        case 0x6: return `LD ${x}, ${nn}`;
+        case 0x7: return `ADD ${x}, ${nn}`;
+        case 0x8:
+            switch (n) {
+                case 0x0: return `LD ${x}, ${y}`;
+                case 0x1: return `OR ${x}, ${y}`;
+                case 0x2: return `AND ${x}, ${y}`;
+                case 0x3: return `XOR ${x}, ${y}`;
+                case 0x4: return `ADD ${x}, ${y}`;
+                case 0x5: return `SUB ${x}, ${y}`;
+                case 0x6: return `SHR ${x}, ${y}`;
+                case 0x7: return `SUBN ${x}, ${y}`;
+                case 0xE: return `SHL ${x}, ${y}`;
+            }
+            return null;
+        case 0x9: return n === 0 ? `SNE ${x}, ${y}` : null;
+        case 0xA: return `LD I, ${nnn}`;
+        case 0xB: return `JP V0, ${nnn}`;
+        case 0xC: return `RND ${x}, ${nn}`;
+        case 0xD: return `DRW ${x}, ${y}, ${n}`;
+        case 0xE:
+            switch (opcode & 0xFF) {
+                case 0x9E: return `SKP ${x}`;
+                case 0xA1: return `SKNP ${x}`;
+            }
+            return null;
+        case 0xF:
+            if (opcode === 0xF000) {
+                return `LD I, ${cowgodHex(longAddr, 4)}`;
+            }
+            if (opcode === 0xF002) {
+                return "AUDIO";
+            }
+            switch (opcode & 0xFF) {
+                case 0x01: return `PLANE ${(opcode >> 8) & 0xF}`;
+                case 0x07: return `LD ${x}, DT`;
+                case 0x0A: return `LD ${x}, K`;
+                case 0x15: return `LD DT, ${x}`;
+                case 0x18: return `LD ST, ${x}`;
+                case 0x1E: return `ADD I, ${x}`;
+                case 0x29: return `LD F, ${x}`;
+                case 0x30: return `LD HF, ${x}`;
+                case 0x33: return `LD B, ${x}`;
+                case 0x3A: return `LD PITCH, ${x}`;
+                case 0x55: return `LD [I], ${x}`;
+                case 0x65: return `LD ${x}, [I]`;
+                case 0x75: return `LD R, ${x}`;
+                case 0x85: return `LD ${x}, R`;
+            }
+            return null;
+    }
+
+    return null;
+}
+
+function readOpcode(memory: Uint8Array, addr: number): number {
+    return (memory[addr] << 8) | memory[addr + 1];
+}
+
+/**
+ * Decodes the instruction at an address
+ * @param memory memory to read from
+ * @param addr address of the instruction
+ * @param syntax syntax to render the instruction in
+ * @returns the instruction, or null if the bytes there are not a valid instruction
+ */
+export function decodeInstruction(memory: Uint8Array, addr: number, syntax: Syntax): DecodedInstruction | null {
+    if (addr + 1 >= memory.length) {
+        return null;
+    }
+
+    const opcode = readOpcode(memory, addr);
+    const size = opcode === 0xF000 ? 4 : 2;
+    if (addr + size > memory.length) {
+        return null;
+    }
+
+    const longAddr = size === 4 ? readOpcode(memory, addr + 2) : 0;
+    const text = syntax === "octo" ? octoText(opcode, longAddr) : cowgodText(opcode, longAddr);
+
+    return text === null ? null : { size, text };
+}
+
+/**
+ * Whether an opcode conditionally skips the following instruction
+ */
+function isSkip(opcode: number): boolean {
+    switch (opcode >> 12) {
+        case 0x3:
+        case 0x4:
+            return true;
+        case 0x5:
+        case 0x9:
+            return (opcode & 0xF) === 0;
+        case 0xE:
+            return (opcode & 0xFF) === 0x9E || (opcode & 0xFF) === 0xA1;
+    }
+
+    return false;
+}
+
+/**
+ * Finds the instructions reachable from an entry point by following jumps, calls and skips.
+ *
+ * Computed jumps (BNNN) cannot be followed, so code only reached through them is missed.
+ * @param memory memory to analyse
+ * @param entries addresses execution may start from
+ * @returns addresses of reachable instructions
+ */
+export function findReachableCode(memory: Uint8Array, entries: number[] = [ENTRY_POINT]): Set<number> {
+    const code = new Set<number>();
+    const pending = entries.slice();
+
+    while (pending.length > 0) {
+        const addr = pending.pop() as number;
+        if (code.has(addr)) {
+            continue;
+        }
+
+        const instruction = decodeInstruction(memory, addr, "octo");
+        if (!instruction) {
+            continue;
+        }
+        code.add(addr);
+
+        const opcode = readOpcode(memory, addr);
+        const next = addr + instruction.size;
+
+        switch (opcode >> 12) {
+            case 0x1:
+                pending.push(opcode & 0xFFF);
+                continue;
+            case 0x2:
+                pending.push(opcode & 0xFFF, next);
+                continue;
+            case 0xB:
+                // Target depends on a register
+                continue;
+        }
+
+        if (opcode === 0x00EE || opcode === 0x00FD) {
+            continue;
+        }
+
+        if (isSkip(opcode)) {
+            const skipped = decodeInstruction(memory, next, "octo");
+            pending.push(next + (skipped?.size ?? 2));
+        }
+        pending.push(next);
+    }
+
+    return code;
+}
+
+function dataText(bytes: number[], syntax: Syntax): string {
+    if (syntax === "octo") {
+        return bytes.map((byte) => octoHex(byte, 2)).join(" ");
+    }
+    return `DB ${bytes.map((byte) => cowgodHex(byte, 2)).join(", ")}`;
+}
+
+/**
+ * Disassembles a range of memory into a listing
+ * @param memory memory to read from
+ * @param start first address of the listing
+ * @param end address just past the listing
+ * @param syntax syntax to render instructions in
+ * @param code addresses of reachable instructions; everything else is listed as data
+ */
+export function disassembleRange(
+    memory: Uint8Array,
+    start: number,
+    end: number,
+    syntax: Syntax,
+    code: Set<number>
+): DisassembledLine[] {
+    const lines: DisassembledLine[] = [];
+    let addr = start;
+
+    while (addr < end) {
+        const instruction = code.has(addr) ? decodeInstruction(memory, addr, syntax) : null;
+        if (instruction) {
+            lines.push({
+                addr,
+                bytes: Array.from(memory.subarray(addr, addr + instruction.size)),
+                text: instruction.text,
+                isCode: true,
+            });
+            addr += instruction.size;
+            continue;
+        }
+
+        // Group data bytes up to the next instruction
+        const bytes: number[] = [];
+        while (addr + bytes.length < end && bytes.length < DATA_BYTES_PER_LINE && !code.has(addr + bytes.length)) {
+            bytes.push(memory[addr + bytes.length]);
+        }
+        if (bytes.length === 0) {
+            // An unreadable instruction was marked as code
+            bytes.push(memory[addr]);
+        }
+
+        lines.push({ addr, bytes, text: dataText(bytes, syntax), isCode: false });
+        addr += bytes.length;
+    }
+
+    return lines;
+}
@@ -0,0 +1,189 @@
+/** Bit mask of the first XO-CHIP drawing plane */
+export const PLANE_1 = 0b01;
+/** Bit mask of the second XO-CHIP drawing plane */
+export const PLANE_2 = 0b10;
+/** Bit mask of every drawing plane */
+export const ALL_PLANES = PLANE_1 | PLANE_2;
+
+/**
+ * Output surface the emulator core draws into.
+ *
+ * Coordinates are in VPixels, with (0, 0) at the top-left of the screen. Each VPixel holds
+ * one bit per XO-CHIP drawing plane; plain CHIP-8 programs only ever use the first plane.
+ */
+export interface Display {
+    /** Display width in VPixels */
+    readonly vWidth: number;
+    /** Display height in VPixels */
+    readonly vHeight: number;
+
+    /** Row-major VPixel states as plane bit masks. Replaced when the resolution changes. */
+    readonly pixels: Uint8Array;
+
+    /**
+     * Changes the virtual resolution. The display is cleared.
+     * @param vWidth new width in VPixels
+     * @param vHeight new height in VPixels
+     */
+    setResolution(vWidth: number, vHeight: number): void;
+
+    /**
+     * Clears the virtual display
+     * @param planes bit mask of the planes to clear
+     */
+    clear(planes?: number): void;
+
+    /**
+     * Moves the display contents up, filling the vacated rows with unlit pixels
+     * @param rows number of rows to scroll by
+     * @param planes bit mask of the planes to scroll
+     */
+    scrollUp(rows: number, planes?: number): void;
+
+    /**
+     * Moves the display contents down, filling the vacated rows with unlit pixels
+     * @param rows number of rows to scroll by
+     * @param planes bit mask of the planes to scroll
+     */
+    scrollDown(rows: number, planes?: number): void;
+
+    /**
+     * Moves the display contents left, filling the vacated columns with unlit pixels
+     * @param cols number of columns to scroll by
+     * @param planes bit mask of the planes to scroll
+     */
+    scrollLeft(cols: number, planes?: number): void;
+
+    /**
+     * Moves the display contents right, filling the vacated columns with unlit pixels
+     * @param cols number of columns to scroll by
+     * @param planes bit mask of the planes to scroll
+     */
+    scrollRight(cols: number, planes?: number): void;
+
+    /**
+     * Toggles a VPixel
+     * @param x x-coordinate of pixel to toggle
+     * @param y y-coordinate of pixel to toggle
+     * @param plane bit mask of the single plane to toggle
+     * @returns true if the pixel was toggled from 'on' to 'off'; false otherwise
+     */
+    toggleVPixel(x: number, y: number, plane?: number): boolean;
+
+    /**
+     * Marks the contents as changed. Presenting them is up to the display, which may
+     * batch any number of changes into a single frame.
+     */
+    invalidate(): void;
+}
+
+/**
+ * In-memory display which keeps one byte per VPixel and never presents anything.
+ *
+ * Used directly when running headless and as the backing store of on-screen displays.
+ */
+export class FramebufferDisplay implements Display {
+    /** Default display width in VPixels */
+    public static readonly DEFAULT_WIDTH = 64;
+    /** Default display height in VPixels */
+    public static readonly DEFAULT_HEIGHT = 32;
+
+    public vWidth: number;
+    public vHeight: number;
+
+    /**
+     * Row-major VPixel states as plane bit masks, which double as palette indices.
+     * Replaced when the resolution changes.
+     */
+    public pixels: Uint8Array;
+
+    public constructor(
+        vWidth = FramebufferDisplay.DEFAULT_WIDTH,
+        vHeight = FramebufferDisplay.DEFAULT_HEIGHT
+    ) {
+        this.vWidth = vWidth;
+        this.vHeight = vHeight;
+        this.pixels = new Uint8Array(vWidth * vHeight);
+    }
+
+    /**
+     * Reads the state of a single VPixel
+     * @param x x-coordinate of pixel
+     * @param y y-coordinate of pixel
+     * @returns true if the pixel is lit on any plane; false if unlit or off-screen
+     */
+    public getVPixel(x: number, y: number): boolean {
+        if (x < 0 || x >= this.vWidth || y < 0 || y >= this.vHeight) {
+            return false;
+        }
+
+        return this.pixels[(y * this.vWidth) + x] !== 0;
+    }
+
+    public setResolution(vWidth: number, vHeight: number) {
+        this.vWidth = vWidth;
+        this.vHeight = vHeight;
+        this.pixels = new Uint8Array(vWidth * vHeight);
+    }
+
+    public toggleVPixel(x: number, y: number, plane = PLANE_1): boolean {
+        if (x < 0 || x >= this.vWidth || y < 0 || y >= this.vHeight) {
+            return false;
+        }
+
+        const index = (y * this.vWidth) + x;
+        this.pixels[index] ^= plane;
+
+        return (this.pixels[index] & plane) === 0;
+    }
+
+    public clear(planes = ALL_PLANES) {
+        for (let index = 0; index < this.pixels.length; index++) {
+            this.pixels[index] &= ~planes;
+        }
+
+        this.invalidate();
+    }
+
+    public scrollUp(rows: number, planes = ALL_PLANES) {
+        this.shiftPlanes(0, -rows, planes);
+    }
+
+    public scrollDown(rows: number, planes = ALL_PLANES) {
+        this.shiftPlanes(0, rows, planes);
+    }
+
+    public scrollLeft(cols: number, planes = ALL_PLANES) {
+        this.shiftPlanes(-cols, 0, planes);
+    }
+
+    public scrollRight(cols: number, planes = ALL_PLANES) {
+        this.shiftPlanes(cols, 0, planes);
+    }
+
+    /**
+     * Moves the selected planes by an offset, leaving the other planes in place
+     * @param dx columns to move right by; negative moves left
+     * @param dy rows to move down by; negative moves up
+     * @param planes bit mask of the planes to move
+     */
+    private shiftPlanes(dx: number, dy: number, planes: number) {
+        const source = this.pixels.slice();
+
+        for (let y = 0; y < this.vHeight; y++) {
+            for (let x = 0; x < this.vWidth; x++) {
+                const srcX = x - dx;
+                const srcY = y - dy;
+                const inBounds = srcX >= 0 && srcX < this.vWidth && srcY >= 0 && srcY < this.vHeight;
+                const moved = inBounds ? source[(srcY * this.vWidth) + srcX] : 0;
+
+                const index = (y * this.vWidth) + x;
+                this.pixels[index] = (source[index] & ~planes) | (moved & planes);
+            }
+        }
+    }
+
+    public invalidate() {
+        // Nothing to present
+    }
+}
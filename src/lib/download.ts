@@ -0,0 +1,15 @@
+/**
+ * Offers text to the user as a file download
+ * @param text contents of the file
+ * @param fileName name to save the file under
+ * @param type MIME type of the contents
+ */
+export function downloadText(text: string, fileName: string, type: string) {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // The browser may only start reading the URL after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,738 @@
+import { describe, it, expect } from 'vitest';
+import Chip8 from './emulator';
+import { FramebufferDisplay } from './display';
+import type { AudioSink } from './audio';
+import { ManualClock } from './clock';
+import { resolveQuirks } from './quirks';
+import { PLANE_1, PLANE_2 } from './display';
+import { rom, run } from './test_helpers';
+
+class CountingAudioSink implements AudioSink {
+	public starts = 0;
+	public stops = 0;
+	public duration = 0;
+
+	public start(duration: number) {
+		this.starts += 1;
+		this.duration = duration;
+	}
+
+	public stop() {
+		this.stops += 1;
+	}
+
+	public pattern: Uint8Array | null = null;
+	public pitch = 0;
+
+	public setPattern(pattern: Uint8Array | null, pitch: number) {
+		this.pattern = pattern;
+		this.pitch = pitch;
+	}
+}
+
+describe('headless Chip8', () => {
+	it('draws into an in-memory framebuffer', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		// I = font '0'; V0 = V1 = 0; draw 5 rows at (V0, V1)
+		chip8.loadROM(rom(0xa000, 0x6000, 0x6100, 0xd015));
+
+		for (let i = 0; i < 4; i++) {
+			chip8.step();
+		}
+
+		// Top row of '0' is 0xF0
+		expect([0, 1, 2, 3, 4].map((x) => display.getVPixel(x, 0))).toEqual([
+			true,
+			true,
+			true,
+			true,
+			false
+		]);
+		// Second row is 0x90
+		expect([0, 1, 2, 3].map((x) => display.getVPixel(x, 1))).toEqual([true, false, false, true]);
+	});
+
+	it('drives the sound timer from the supplied clock', () => {
+		const audio = new CountingAudioSink();
+		const clock = new ManualClock();
+		const chip8 = new Chip8(new FramebufferDisplay(), { audio, clock });
+		// V2 = 3; sound timer = V2
+		chip8.loadROM(rom(0x6203, 0xf218));
+
+		chip8.step();
+		chip8.step();
+		expect(audio.starts).toBe(1);
+		expect(audio.duration).toBeCloseTo(3 / 60);
+
+		clock.tick(2);
+		expect(audio.stops).toBe(0);
+
+		clock.tick();
+		expect(audio.stops).toBe(1);
+	});
+
+	it('announces a new sound duration whenever the sound timer is set', () => {
+		const audio = new CountingAudioSink();
+		const chip8 = new Chip8(new FramebufferDisplay(), { audio, clock: new ManualClock() });
+		// V2 = 3; sound timer = V2; V2 = 30; sound timer = V2; V2 = 0; sound timer = V2
+		chip8.loadROM(rom(0x6203, 0xf218, 0x621e, 0xf218, 0x6200, 0xf218));
+
+		chip8.step();
+		chip8.step();
+		chip8.step();
+		chip8.step();
+		expect(audio.starts).toBe(2);
+		expect(audio.duration).toBeCloseTo(0.5);
+
+		chip8.step();
+		chip8.step();
+		expect(audio.stops).toBe(1);
+	});
+});
+
+describe('instructions', () => {
+	interface InstructionCase {
+		name: string;
+		program: number[];
+		/** Instructions to execute; defaults to one per word of the program */
+		steps?: number;
+		v?: Record<number, number>;
+		i?: number;
+		pc?: number;
+	}
+
+	// Run with the COSMAC VIP quirks
+	const cases: InstructionCase[] = [
+		{ name: '1NNN jumps', program: [0x1208], pc: 0x208 },
+		{ name: '2NNN calls and 00EE returns', program: [0x2206, 0x6001, 0x0000, 0x00ee], steps: 3, v: { 0: 1 }, pc: 0x204 },
+		{ name: '3XNN skips when equal', program: [0x6005, 0x3005], pc: 0x206 },
+		{ name: '3XNN does not skip when not equal', program: [0x6005, 0x3006], pc: 0x204 },
+		{ name: '4XNN skips when not equal', program: [0x6005, 0x4006], pc: 0x206 },
+		{ name: '4XNN does not skip when equal', program: [0x6005, 0x4005], pc: 0x204 },
+		{ name: '5XY0 skips when equal', program: [0x6005, 0x6105, 0x5010], pc: 0x208 },
+		{ name: '5XY0 does not skip when not equal', program: [0x6005, 0x5010], pc: 0x204 },
+		{ name: '6XNN loads', program: [0x6a42], v: { 0xa: 0x42 } },
+		{ name: '7XNN adds, wrapping without touching VF', program: [0x60f0, 0x6f07, 0x7020], v: { 0: 0x10, 0xf: 7 } },
+		{ name: '8XY0 copies', program: [0x6107, 0x8010], v: { 0: 7, 1: 7 } },
+		{ name: '8XY1 ORs', program: [0x600c, 0x610a, 0x8011], v: { 0: 0x0e, 0xf: 0 } },
+		{ name: '8XY2 ANDs', program: [0x600c, 0x610a, 0x8012], v: { 0: 0x08, 0xf: 0 } },
+		{ name: '8XY3 XORs', program: [0x600c, 0x610a, 0x8013], v: { 0: 0x06, 0xf: 0 } },
+		{ name: '8XY4 adds with no carry', program: [0x6010, 0x6120, 0x8014], v: { 0: 0x30, 0xf: 0 } },
+		{ name: '8XY4 adds with a carry', program: [0x60ff, 0x6102, 0x8014], v: { 0: 0x01, 0xf: 1 } },
+		{ name: '8XY4 keeps the carry in VF', program: [0x6fff, 0x6102, 0x8f14], v: { 0xf: 1 } },
+		{ name: '8XY5 subtracts with no borrow', program: [0x6030, 0x6110, 0x8015], v: { 0: 0x20, 0xf: 1 } },
+		{ name: '8XY5 subtracts with a borrow', program: [0x6010, 0x6130, 0x8015], v: { 0: 0xe0, 0xf: 0 } },
+		{ name: '8XY6 shifts VY right', program: [0x6105, 0x8016], v: { 0: 0x02, 0xf: 1 } },
+		{ name: '8XY7 subtracts VX from VY with no borrow', program: [0x6010, 0x6130, 0x8017], v: { 0: 0x20, 0xf: 1 } },
+		{ name: '8XY7 subtracts VX from VY with a borrow', program: [0x6030, 0x6110, 0x8017], v: { 0: 0xe0, 0xf: 0 } },
+		{ name: '8XYE shifts VY left', program: [0x6181, 0x801e], v: { 0: 0x02, 0xf: 1 } },
+		{ name: '9XY0 skips when not equal', program: [0x6005, 0x9010], pc: 0x206 },
+		{ name: '9XY0 does not skip when equal', program: [0x9010], pc: 0x202 },
+		{ name: 'ANNN loads I', program: [0xa123], i: 0x123 },
+		{ name: 'BNNN jumps with V0', program: [0x6004, 0xb300], pc: 0x304 },
+		{ name: 'CXNN masks the random number', program: [0x60ff, 0xc000], v: { 0: 0 } },
+		{ name: 'FX07 reads the delay timer', program: [0x6009, 0xf015, 0xf107], v: { 1: 9 } },
+		{ name: 'FX1E adds to I', program: [0xa100, 0x6010, 0xf01e], i: 0x110 },
+		{ name: 'FX29 points I at the font', program: [0x600a, 0xf029], i: 50 },
+		{ name: 'FX33 stores BCD', program: [0xa300, 0x60ea, 0xf033, 0xa300, 0xf265], v: { 0: 2, 1: 3, 2: 4 } },
+		{ name: 'FX55 and FX65 advance I', program: [0xa300, 0x6007, 0xf055, 0xa300, 0x6000, 0xf065], v: { 0: 7 }, i: 0x301 }
+	];
+
+	it.each(cases)('$name', ({ program, steps, v, i, pc }) => {
+		const chip8 = new Chip8(new FramebufferDisplay(), { quirks: resolveQuirks('vip') });
+		chip8.loadROM(rom(...program));
+		for (let n = 0; n < (steps ?? program.length); n++) {
+			chip8.step();
+		}
+
+		const registers = chip8.inspect();
+		for (const [idx, value] of Object.entries(v ?? {})) {
+			expect(registers.v[Number(idx)], `V${Number(idx).toString(16).toUpperCase()}`).toBe(value);
+		}
+		if (i !== undefined) {
+			expect(registers.i).toBe(i);
+		}
+		if (pc !== undefined) {
+			expect(registers.pc).toBe(pc);
+		}
+	});
+
+	it('00E0 clears the display', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		chip8.loadROM(rom(0xa000, 0xd005, 0x00e0));
+		chip8.step();
+		chip8.step();
+		expect(display.getVPixel(0, 0)).toBe(true);
+
+		chip8.step();
+		expect(display.pixels.every((pixel) => pixel === 0)).toBe(true);
+	});
+
+	it('FX0A waits for a key, including into V0', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		chip8.loadROM(rom(0xf00a, 0x6101));
+		chip8.step();
+		chip8.step();
+		expect(chip8.inspect().v[1]).toBe(0);
+
+		chip8.pressKey(0xb);
+		chip8.step();
+		expect(chip8.inspect().v[0]).toBe(0xb);
+		expect(chip8.inspect().v[1]).toBe(1);
+	});
+});
+
+describe('quirks', () => {
+	it('shifts VY into VX when shiftUsesVY is set', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display, { quirks: resolveQuirks('vip') });
+		// V0 = 0x00; V1 = 0x10; V0 = V1 >> 1; if V0 == 0x08 draw font '0'
+		chip8.loadROM(rom(0x6000, 0x6110, 0x8016, 0x3008, 0x1210, 0x6000, 0xa000, 0xd005));
+		run(chip8, 7);
+		expect(display.getVPixel(0, 0)).toBe(true);
+	});
+
+	it('shifts VX in place when shiftUsesVY is clear', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display, { quirks: resolveQuirks('schip') });
+		chip8.loadROM(rom(0x6004, 0x6110, 0x8016, 0x3002, 0x1210, 0x6000, 0xa000, 0xd005));
+		run(chip8, 7);
+		expect(display.getVPixel(0, 0)).toBe(true);
+	});
+
+	it('clips or wraps sprites at the right edge', () => {
+		// V0 = 62; V1 = 0; I = font '0'; draw at (V0, V1)
+		const program = rom(0x603e, 0x6100, 0xa000, 0xd015);
+
+		const clipped = new FramebufferDisplay();
+		const clipping = new Chip8(clipped, { quirks: resolveQuirks('vip') });
+		clipping.loadROM(program);
+		run(clipping, 4);
+		expect(clipped.getVPixel(63, 0)).toBe(true);
+		expect(clipped.getVPixel(0, 0)).toBe(false);
+
+		const wrapped = new FramebufferDisplay();
+		const wrapping = new Chip8(wrapped, { quirks: resolveQuirks('xochip') });
+		wrapping.loadROM(program);
+		run(wrapping, 4);
+		expect(wrapped.getVPixel(63, 0)).toBe(true);
+		expect(wrapped.getVPixel(0, 0)).toBe(true);
+	});
+
+	it('uses VX or V0 as the BNNN offset', () => {
+		// V0 = 0; V2 = 4; jump to 0x208 + offset; 0x208: spin forever; 0x20C: draw font '0'
+		const program = rom(0x6000, 0x6204, 0xb208, 0x0000, 0x1208, 0x0000, 0xa000, 0xd005);
+
+		const vip = new FramebufferDisplay();
+		const vipChip8 = new Chip8(vip, { quirks: resolveQuirks('vip') });
+		vipChip8.loadROM(program);
+		run(vipChip8, 5);
+		expect(vip.getVPixel(0, 0)).toBe(false);
+
+		const schip = new FramebufferDisplay();
+		const schipChip8 = new Chip8(schip, { quirks: resolveQuirks('schip') });
+		schipChip8.loadROM(program);
+		run(schipChip8, 5);
+		expect(schip.getVPixel(0, 0)).toBe(true);
+	});
+});
+
+describe('SUPER-CHIP', () => {
+	it('switches between low and high resolution', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		chip8.loadROM(rom(0x00ff, 0x00fe));
+
+		chip8.step();
+		expect([display.vWidth, display.vHeight]).toEqual([128, 64]);
+		chip8.step();
+		expect([display.vWidth, display.vHeight]).toEqual([64, 32]);
+	});
+
+	it('draws 16x16 sprites with DXY0', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		// hires; I = 0x20A; V0 = 0; draw 16x16 at (0, 0); 0x20A: first row 0xFFFF
+		chip8.loadROM(rom(0x00ff, 0xa20a, 0x6000, 0xd000, 0x1208, 0xffff));
+		run(chip8, 4);
+
+		expect(display.getVPixel(15, 0)).toBe(true);
+		expect(display.getVPixel(16, 0)).toBe(false);
+	});
+
+	it('points I at the large font with FX30', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		// V0 = 1; I = large '1'; draw 10 rows at (V1, V1)
+		chip8.loadROM(rom(0x6001, 0xf030, 0x6100, 0xd11a));
+		run(chip8, 4);
+
+		// Top row of large '1' is 0x18
+		expect([2, 3, 4, 5].map((x) => display.getVPixel(x, 0))).toEqual([false, true, true, false]);
+	});
+
+	it('scrolls the display', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		// I = font '0'; V0 = 0; draw at (0, 0); scroll down 2; scroll right 4; scroll left 4
+		chip8.loadROM(rom(0xa000, 0x6000, 0xd005, 0x00c2, 0x00fb, 0x00fc));
+
+		run(chip8, 4);
+		expect(display.getVPixel(0, 0)).toBe(false);
+		expect(display.getVPixel(0, 2)).toBe(true);
+
+		chip8.step();
+		expect(display.getVPixel(0, 2)).toBe(false);
+		expect(display.getVPixel(4, 2)).toBe(true);
+
+		chip8.step();
+		expect(display.getVPixel(0, 2)).toBe(true);
+	});
+
+	it('keeps RPL flags across ROM loads', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		// V0 = 0; V1 = 0; V2 = 5; save V0-V2 to flags
+		chip8.loadROM(rom(0x6000, 0x6100, 0x6205, 0xf275));
+		run(chip8, 4);
+
+		// Load V0-V2 from flags; I = font char V2; draw at (V0, V0)
+		chip8.loadROM(rom(0xf285, 0xf229, 0xd005));
+		run(chip8, 3);
+
+		// Top row of '5' is 0xF0 and second row is 0x80
+		expect(display.getVPixel(3, 0)).toBe(true);
+		expect(display.getVPixel(3, 1)).toBe(false);
+	});
+
+	it('halts on 00FD', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		chip8.loadROM(rom(0x00fd, 0xa000, 0xd005));
+		run(chip8, 3);
+
+		expect(chip8.hasExited()).toBe(true);
+		expect(display.getVPixel(0, 0)).toBe(false);
+	});
+});
+
+describe('XO-CHIP', () => {
+	it('loads I from the following word and skips over it as one instruction', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		// V0 = 0; skip if V0 == 0 (skips the whole long load); I = 0x0000 via long load; draw
+		const program = rom(0x6000, 0x3000, 0xf000, 0x0005, 0xd005);
+		chip8.loadROM(program);
+		run(chip8, 3);
+		// I is still 0 (font '0'), so the top row is 0xF0
+		expect(display.getVPixel(3, 0)).toBe(true);
+
+		// Without the skip, I points at font '1' whose top row is 0x20
+		program[3] = 0x01;
+		chip8.loadROM(program);
+		run(chip8, 4);
+		expect(display.getVPixel(3, 0)).toBe(false);
+		expect(display.getVPixel(2, 0)).toBe(true);
+	});
+
+	it('loads ROMs larger than 4 KiB', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display, { quirks: resolveQuirks('xochip') });
+		const program = new Uint8Array(0x2000);
+		// I = 0x1800 via long load; V0 = 0; draw the one-row sprite stored there
+		program.set(rom(0xf000, 0x1800, 0x6000, 0xd001), 0);
+		program[0x1800 - 0x200] = 0xff;
+		chip8.loadROM(program);
+		run(chip8, 3);
+
+		expect(display.getVPixel(7, 0)).toBe(true);
+	});
+
+	it('saves and loads register ranges without moving I', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display, { quirks: resolveQuirks('xochip') });
+		// V1 = 0xF0; V2 = 0x90; I = 0x300; save V1..V2; load V4..V3 (reversed); draw from I
+		chip8.loadROM(rom(0x61f0, 0x6290, 0xa300, 0x5122, 0x5433, 0x6000, 0xd002));
+		run(chip8, 7);
+
+		// Reversed load puts 0xF0 in V4 and 0x90 in V3; draw still reads 0xF0, 0x90 at I
+		expect(display.getVPixel(3, 0)).toBe(true);
+		expect(display.getVPixel(1, 1)).toBe(false);
+		expect(display.getVPixel(3, 1)).toBe(true);
+	});
+
+	it('draws to each selected plane with consecutive sprite data', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display, { quirks: resolveQuirks('xochip') });
+		// select both planes; I = font '0'; V0 = 0; draw 1 row per plane (0xF0 then 0x90)
+		chip8.loadROM(rom(0xf301, 0xa000, 0x6000, 0xd001));
+		run(chip8, 4);
+
+		expect(display.pixels[0]).toBe(PLANE_1 | PLANE_2);
+		expect(display.pixels[1]).toBe(PLANE_1);
+		expect(display.pixels[3]).toBe(PLANE_1 | PLANE_2);
+	});
+
+	it('only clears the selected planes', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display, { quirks: resolveQuirks('xochip') });
+		// select both planes; draw; select plane 2; clear
+		chip8.loadROM(rom(0xf301, 0xa000, 0x6000, 0xd001, 0xf201, 0x00e0));
+		run(chip8, 6);
+
+		expect(display.pixels[0]).toBe(PLANE_1);
+		expect(display.pixels[1]).toBe(PLANE_1);
+		expect(display.pixels[2]).toBe(PLANE_1);
+	});
+
+	it('passes audio patterns and pitch to the audio sink', () => {
+		const audio = new CountingAudioSink();
+		const chip8 = new Chip8(new FramebufferDisplay(), { audio });
+		// I = font data; load pattern; V0 = 100; set pitch
+		chip8.loadROM(rom(0xa000, 0xf002, 0x6064, 0xf03a));
+		run(chip8, 4);
+
+		expect(audio.pattern?.length).toBe(16);
+		expect(audio.pattern?.[0]).toBe(0xf0);
+		expect(audio.pitch).toBe(100);
+	});
+});
+
+describe('save states', () => {
+	it('restores registers, memory and the display', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		// I = font '0'; V0 = V1 = 0; draw at (V1, V0); V1 += 8; draw; V1 += 8; draw
+		chip8.loadROM(rom(0xa000, 0x6000, 0x6100, 0xd105, 0x7108, 0xd105, 0x7108, 0xd105));
+		for (let i = 0; i < 4; i++) {
+			chip8.step();
+		}
+
+		const state = chip8.saveState();
+		for (let i = 0; i < 4; i++) {
+			chip8.step();
+		}
+		expect(display.getVPixel(16, 0)).toBe(true);
+
+		chip8.loadState(state);
+		expect(display.getVPixel(0, 0)).toBe(true);
+		expect(display.getVPixel(8, 0)).toBe(false);
+
+		// Execution resumes from the saved PC with the saved V1
+		chip8.step();
+		chip8.step();
+		expect(display.getVPixel(8, 0)).toBe(true);
+		expect(display.getVPixel(16, 0)).toBe(false);
+	});
+
+	it('does not share buffers with the emulator', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		chip8.loadROM(rom(0x6001));
+		const state = chip8.saveState();
+		chip8.step();
+
+		expect(state.v[0]).toBe(0);
+		expect(state.memory[0x200]).toBe(0x60);
+	});
+
+	it('rejects states from other format versions', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		const state = { ...chip8.saveState(), version: Chip8.STATE_VERSION + 1 };
+
+		expect(() => chip8.loadState(state)).toThrowError(/version/);
+	});
+});
+
+describe('rewind', () => {
+	it('steps back one frame per clock tick while rewinding', () => {
+		const display = new FramebufferDisplay();
+		const clock = new ManualClock();
+		const chip8 = new Chip8(display, { clock, rewindSeconds: 1 });
+		// I = font '0'; V0 = V1 = 0; loop: draw at (V0, V1); V0 += 8
+		chip8.loadROM(rom(0xa000, 0x6000, 0x6100, 0xd015, 0x7008, 0x1206));
+
+		// Run three frames, each drawing one more digit
+		for (let i = 0; i < 4; i++) {
+			chip8.step();
+		}
+		clock.tick();
+		for (let frame = 1; frame < 3; frame++) {
+			chip8.step();
+			chip8.step();
+			chip8.step();
+			clock.tick();
+		}
+		expect(display.getVPixel(16, 0)).toBe(true);
+
+		chip8.setRewinding(true);
+		clock.tick();
+		clock.tick();
+		expect(display.getVPixel(16, 0)).toBe(false);
+		expect(display.getVPixel(8, 0)).toBe(true);
+
+		// Steps are ignored while rewinding
+		chip8.step();
+		expect(display.getVPixel(16, 0)).toBe(false);
+
+		chip8.setRewinding(false);
+		chip8.step();
+		chip8.step();
+		chip8.step();
+		expect(display.getVPixel(16, 0)).toBe(true);
+	});
+
+	it('cannot rewind when disabled', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		chip8.setRewinding(true);
+
+		expect(chip8.isRewinding()).toBe(false);
+	});
+});
+
+describe('memory access', () => {
+	it('pokes bytes which the program then executes', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		chip8.loadROM(rom(0x6001));
+		// Patch V0 = 1 into V0 = 0x2A
+		chip8.pokeMemory(0x201, [0x2a]);
+		chip8.step();
+
+		expect(chip8.readMemory(0x200, 2)).toEqual(Uint8Array.of(0x60, 0x2a));
+		expect(chip8.inspect().v[0]).toBe(0x2a);
+	});
+
+	it('rejects out-of-range addresses and values', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+
+		expect(() => chip8.pokeMemory(Chip8.MEM_SIZE - 1, [0, 0])).toThrow();
+		expect(() => chip8.pokeMemory(-1, [0])).toThrow();
+		expect(() => chip8.pokeMemory(0x200, [0x100])).toThrow();
+		expect(() => chip8.readMemory(-1, 1)).toThrow();
+	});
+});
+
+describe('keypad', () => {
+	it('skips on held keys, including key 0', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		// V1 = 0; skip if V1 held; V2 = 1; skip if V1 not held; V3 = 1
+		chip8.loadROM(rom(0x6100, 0xe19e, 0x6201, 0xe1a1, 0x6301));
+		chip8.pressKey(0x0);
+		chip8.step();
+		chip8.step();
+		expect(chip8.inspect().pc).toBe(0x206);
+
+		expect(chip8.getPressedKeys()).toEqual([0x0]);
+
+		chip8.releaseKey(0x0);
+		chip8.step();
+		expect(chip8.inspect().pc).toBe(0x20a);
+		expect(chip8.inspect().v[2]).toBe(0);
+		expect(chip8.inspect().v[3]).toBe(0);
+	});
+
+	it('rejects keys off the keypad', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+
+		expect(() => chip8.pressKey(0x10)).toThrow();
+		expect(() => chip8.releaseKey(-1)).toThrow();
+	});
+
+	it('sets every key at once from a bit mask', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		chip8.pressKey(0x1);
+		chip8.setKeyState(0b1000_0000_0000_0101);
+
+		expect(chip8.getPressedKeys().sort((a, b) => a - b)).toEqual([0x0, 0x2, 0xf]);
+		expect(chip8.getKeyState()).toBe(0b1000_0000_0000_0101);
+		expect(() => chip8.setKeyState(0x10000)).toThrow();
+	});
+});
+
+describe('random numbers', () => {
+	// V0 = rand; V1 = rand; V2 = rand & 0x0F
+	const program = rom(0xc0ff, 0xc1ff, 0xc20f);
+
+	function run(chip8: Chip8): number[] {
+		chip8.loadROM(program);
+		chip8.runFrame(3);
+		return Array.from(chip8.inspect().v.subarray(0, 3));
+	}
+
+	it('repeats for the same seed', () => {
+		const first = run(new Chip8(new FramebufferDisplay(), { seed: 1234 }));
+		const second = new Chip8(new FramebufferDisplay(), { seed: 99 });
+		second.setSeed(1234);
+
+		expect(run(second)).toEqual(first);
+		expect(first[2]).toBeLessThan(0x10);
+	});
+
+	it('continues the same sequence after loading a state', () => {
+		const chip8 = new Chip8(new FramebufferDisplay(), { seed: 7 });
+		chip8.loadROM(rom(0xc0ff, 0x1200));
+		const state = chip8.saveState();
+		chip8.step();
+		const expected = chip8.inspect().v[0];
+
+		chip8.step();
+		chip8.step();
+		chip8.loadState(state);
+		chip8.step();
+		expect(chip8.inspect().v[0]).toBe(expected);
+	});
+});
+
+describe('faults', () => {
+	it('halts on a call past the top of the stack', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		// Call self forever
+		chip8.loadROM(rom(0x2200));
+		for (let i = 0; i < 20; i++) {
+			chip8.step();
+		}
+
+		expect(chip8.getFault()).toEqual({ type: 'stackOverflow', pc: 0x200, opcode: 0x2200, addr: null });
+		expect(chip8.inspect().pc).toBe(0x200);
+		expect(chip8.inspect().callStack).toHaveLength(16);
+	});
+
+	it('halts on a return with an empty stack', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		chip8.loadROM(rom(0x6001, 0x00ee, 0x6002));
+		chip8.step();
+		chip8.step();
+		chip8.step();
+
+		expect(chip8.getFault()?.type).toBe('stackUnderflow');
+		expect(chip8.inspect().pc).toBe(0x202);
+		expect(chip8.inspect().v[0]).toBe(1);
+	});
+
+	it('halts on invalid opcodes, and skips them when ignored', () => {
+		const program = rom(0x5121, 0x6001);
+		const halting = new Chip8(new FramebufferDisplay());
+		const ignoring = new Chip8(new FramebufferDisplay(), { faultPolicies: { invalidOpcode: 'ignore' } });
+		halting.loadROM(program);
+		ignoring.loadROM(program);
+		for (let i = 0; i < 2; i++) {
+			halting.step();
+			ignoring.step();
+		}
+
+		expect(halting.getFault()?.type).toBe('invalidOpcode');
+		expect(halting.inspect().v[0]).toBe(0);
+		expect(ignoring.getFault()).toBeNull();
+		expect(ignoring.inspect().v[0]).toBe(1);
+	});
+
+	it('reports out-of-bounds memory accesses without writing anything', () => {
+		const chip8 = new Chip8(new FramebufferDisplay(), {
+			quirks: resolveQuirks('xochip'),
+			faultPolicies: { memoryOutOfBounds: 'halt' }
+		});
+		const faults: number[] = [];
+		chip8.onFault((fault, halted) => {
+			expect(halted).toBe(true);
+			faults.push(fault.addr ?? -1);
+		});
+		// I = 0xFFFE; V0 = V1 = V2 = 7; dump V0-V2
+		chip8.loadROM(rom(0xf000, 0xfffe, 0x6007, 0x6107, 0x6207, 0xf255));
+		for (let i = 0; i < 6; i++) {
+			chip8.step();
+		}
+
+		expect(faults).toEqual([0x10000]);
+		expect(chip8.getFault()?.pc).toBe(0x20a);
+		expect(chip8.readMemory(0xfffe, 2)).toEqual(new Uint8Array([0, 0]));
+	});
+
+	it('reports accesses past 4K memory on platforms without extended memory', () => {
+		// I = 0xFFE; V0 = V1 = V2 = 7; dump V0-V2
+		const program = rom(0xaffe, 0x6007, 0x6107, 0x6207, 0xf255);
+		const vip = new Chip8(new FramebufferDisplay(), {
+			quirks: resolveQuirks('vip'),
+			faultPolicies: { memoryOutOfBounds: 'halt' }
+		});
+		const xochip = new Chip8(new FramebufferDisplay(), {
+			quirks: resolveQuirks('xochip'),
+			faultPolicies: { memoryOutOfBounds: 'halt' }
+		});
+		vip.loadROM(program);
+		xochip.loadROM(program);
+		run(vip, 5);
+		run(xochip, 5);
+
+		expect(vip.getFault()).toEqual({ type: 'memoryOutOfBounds', pc: 0x208, opcode: 0xf255, addr: 0x1000 });
+		expect(vip.readMemory(0xffe, 2)).toEqual(new Uint8Array([0, 0]));
+		expect(xochip.getFault()).toBeNull();
+		expect(xochip.readMemory(0xffe, 3)).toEqual(new Uint8Array([7, 7, 7]));
+	});
+
+	it('halts when PC runs past the end of memory', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		chip8.pokeMemory(0xfffe, [0x60, 0x01]);
+		chip8.loadState({ ...chip8.saveState(), pc: 0xfffe });
+		chip8.step();
+		chip8.step();
+
+		expect(chip8.inspect().v[0]).toBe(1);
+
+		expect(chip8.getFault()).toEqual({ type: 'pcOutOfBounds', pc: 0x10000, opcode: null, addr: null });
+	});
+
+	it('runs again after a reset', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		chip8.loadROM(rom(0x00ee));
+		chip8.step();
+		expect(chip8.getFault()).not.toBeNull();
+
+		chip8.reset();
+		expect(chip8.getFault()).toBeNull();
+	});
+});
+
+describe('frames', () => {
+	it('executes the given cycles, then ticks the timers once', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		// Delay timer = V0 = 5; then V1 += 1 forever
+		chip8.loadROM(rom(0x6005, 0xf015, 0x7101, 0x1204));
+
+		chip8.runFrame(6);
+		const registers = chip8.inspect();
+		expect(registers.v[1]).toBe(2);
+		expect(registers.delayTimer).toBe(4);
+	});
+
+	it('ends the frame after a draw when the display wait quirk is set', () => {
+		// Draw, then V1 += 1 forever
+		const program = rom(0xd005, 0x7101, 0x1202);
+		const vip = new Chip8(new FramebufferDisplay(), { quirks: resolveQuirks('vip') });
+		const schip = new Chip8(new FramebufferDisplay(), { quirks: resolveQuirks('schip') });
+		vip.loadROM(program);
+		schip.loadROM(program);
+
+		vip.runFrame(5);
+		schip.runFrame(5);
+
+		expect(vip.inspect().v[1]).toBe(0);
+		expect(schip.inspect().v[1]).toBe(2);
+	});
+
+	it('notifies frame listeners before the frame runs', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		// Skip unless key 5 is held; V1 += 1
+		chip8.loadROM(rom(0x6005, 0xe09e, 0x1208, 0x7101, 0x1202));
+		chip8.step();
+		const removeListener = chip8.onBeforeFrame(() => chip8.setKeyState(1 << 5));
+
+		chip8.runFrame(2);
+		expect(chip8.inspect().v[1]).toBe(1);
+
+		removeListener();
+		chip8.setKeyState(0);
+		chip8.runFrame(4);
+		expect(chip8.inspect().v[1]).toBe(1);
+	});
+});
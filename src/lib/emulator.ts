@@ -1,4 +1,10 @@
-import Display from "./rendering";
+import { PLANE_1, ALL_PLANES, type Display } from "./display";
+import { DEFAULT_PITCH, PATTERN_SIZE, SilentAudioSink, type AudioSink } from "./audio";
+import { ManualClock, TIMER_HZ, type Clock } from "./clock";
+import { DEFAULT_QUIRKS_PRESET, resolveQuirks, type Quirks } from "./quirks";
+import { RewindBuffer } from "./rewind";
+import { Random, randomSeed } from "./random";
+import { DEFAULT_FAULT_POLICIES, describeFault, type Fault, type FaultPolicies, type FaultType } from "./faults";
 
 enum ArgLayout {
     XNN,
@@ -12,14 +18,9 @@ enum Keypad {
     KeyA = 0xA, Key0 = 0x0, KeyB = 0xB, KeyF = 0xF
 }
 
-const inputMap = new Map<string, Keypad>([
-    ['Digit1', Keypad.Key1], ['Digit2', Keypad.Key2], ['Digit3', Keypad.Key3], ['Digit4', Keypad.KeyC],
-    ['KeyQ', Keypad.Key4],   ['KeyW', Keypad.Key5],   ['KeyE', Keypad.Key6],   ['KeyR', Keypad.KeyD],
-    ['KeyA', Keypad.Key7],   ['KeyS', Keypad.Key8],   ['KeyD', Keypad.Key9],   ['KeyF', Keypad.KeyE],
-    ['KeyZ', Keypad.KeyA],   ['KeyX', Keypad.Key0],   ['KeyC', Keypad.KeyB],   ['KeyV', Keypad.KeyF],
-]);
-
 const INSTRUCTION_SIZE = 2;
+/** Opcode of the XO-CHIP long I load, which is followed by a 16-bit address */
+const LONG_LOAD_OPCODE = 0xF000;
 const UINT8_MAX = 255;
 
 /** Font character data */
@@ -45,15 +46,160 @@ const FONT_DATA = new Uint8Array([
 /** Number of bytes in a single font character */
 const FONT_CHAR_WIDTH = 5;
 
+/** SUPER-CHIP large font character data */
+const BIG_FONT_DATA = new Uint8Array([
+    0xFF, 0xFF, 0xC3, 0xC3, 0xC3, 0xC3, 0xC3, 0xC3, 0xFF, 0xFF, // 0
+    0x18, 0x78, 0x78, 0x18, 0x18, 0x18, 0x18, 0x18, 0xFF, 0xFF, // 1
+    0xFF, 0xFF, 0x03, 0x03, 0xFF, 0xFF, 0xC0, 0xC0, 0xFF, 0xFF, // 2
+    0xFF, 0xFF, 0x03, 0x03, 0xFF, 0xFF, 0x03, 0x03, 0xFF, 0xFF, // 3
+    0xC3, 0xC3, 0xC3, 0xC3, 0xFF, 0xFF, 0x03, 0x03, 0x03, 0x03, // 4
+    0xFF, 0xFF, 0xC0, 0xC0, 0xFF, 0xFF, 0x03, 0x03, 0xFF, 0xFF, // 5
+    0xFF, 0xFF, 0xC0, 0xC0, 0xFF, 0xFF, 0xC3, 0xC3, 0xFF, 0xFF, // 6
+    0xFF, 0xFF, 0x03, 0x03, 0x06, 0x0C, 0x18, 0x18, 0x18, 0x18, // 7
+    0xFF, 0xFF, 0xC3, 0xC3, 0xFF, 0xFF, 0xC3, 0xC3, 0xFF, 0xFF, // 8
+    0xFF, 0xFF, 0xC3, 0xC3, 0xFF, 0xFF, 0x03, 0x03, 0xFF, 0xFF, // 9
+    0x7E, 0xFF, 0xC3, 0xC3, 0xC3, 0xFF, 0xFF, 0xC3, 0xC3, 0xC3, // A
+    0xFC, 0xFC, 0xC3, 0xC3, 0xFC, 0xFC, 0xC3, 0xC3, 0xFC, 0xFC, // B
+    0x3C, 0xFF, 0xC3, 0xC0, 0xC0, 0xC0, 0xC0, 0xC3, 0xFF, 0x3C, // C
+    0xFC, 0xFE, 0xC3, 0xC3, 0xC3, 0xC3, 0xC3, 0xC3, 0xFE, 0xFC, // D
+    0xFF, 0xFF, 0xC0, 0xC0, 0xFF, 0xFF, 0xC0, 0xC0, 0xFF, 0xFF, // E
+    0xFF, 0xFF, 0xC0, 0xC0, 0xFF, 0xFF, 0xC0, 0xC0, 0xC0, 0xC0, // F
+]);
+
+/** Location of the large font, directly after the small font */
+const BIG_FONT_ADDR = FONT_DATA.length;
+/** Number of bytes in a single large font character */
+const BIG_FONT_CHAR_WIDTH = 10;
+
+/** Memory of machines without XO-CHIP's extended memory; see the `memory4K` quirk */
+const MEMORY_4K = 0x1000;
+
+/** Number of SUPER-CHIP RPL user flags */
+const RPL_FLAG_COUNT = 16;
+
+/** Low (CHIP-8) resolution in VPixels */
+const LORES_WIDTH = 64;
+const LORES_HEIGHT = 32;
+/** High (SUPER-CHIP) resolution in VPixels */
+const HIRES_WIDTH = 128;
+const HIRES_HEIGHT = 64;
+
+/**
+ * Snapshot of the full machine state, as produced by `Chip8.saveState()`
+ */
+export interface Chip8State {
+    /** Format version; see `Chip8.STATE_VERSION` */
+    version: number;
+    pc: number;
+    i: number;
+    v: Uint8Array;
+    stack: Uint16Array;
+    sp: number;
+    delayTimer: number;
+    soundTimer: number;
+    memory: Uint8Array;
+    rplFlags: Uint8Array;
+    exited: boolean;
+    planes: number;
+    awaitingKey: boolean;
+    keypadRegister: number | null;
+    audioPattern: Uint8Array | null;
+    pitch: number;
+    /** State of the random number generator; missing from states saved by older versions */
+    rngState?: number;
+    display: {
+        vWidth: number;
+        vHeight: number;
+        pixels: Uint8Array;
+    };
+}
+
+/**
+ * Read-only view of the CPU registers, as produced by `Chip8.inspect()`
+ */
+export interface Chip8Registers {
+    pc: number;
+    i: number;
+    /** Copy of V0 through VF */
+    v: Uint8Array;
+    sp: number;
+    /** Return addresses on the call stack, outermost call first */
+    callStack: number[];
+    delayTimer: number;
+    soundTimer: number;
+    /** Whether execution is blocked on FX0A */
+    awaitingKey: boolean;
+}
+
+/**
+ * Called before each instruction executes
+ * @param pc address of the instruction
+ * @param opcode instruction about to execute
+ * @returns false to skip executing the instruction
+ */
+export type StepListener = (pc: number, opcode: number) => boolean | void;
+
+/**
+ * Called after each instruction executes, unless it halted on a fault
+ * @param pc address of the instruction
+ * @param opcode instruction executed
+ */
+export type ExecutedListener = (pc: number, opcode: number) => void;
+
+/**
+ * Called after an instruction writes a byte of memory
+ * @param addr address written
+ * @param value byte written
+ */
+export type MemoryWriteListener = (addr: number, value: number) => void;
+
+/**
+ * Called at the start of each frame run by `Chip8.runFrame()`, before any instruction executes
+ */
+export type FrameListener = () => void;
+
+/**
+ * Called when an instruction raises a fault whose policy is to halt or warn
+ * @param fault the fault
+ * @param halted whether execution halted
+ */
+export type FaultListener = (fault: Fault, halted: boolean) => void;
+
+export interface Chip8Options {
+    /** Sound output; defaults to a silent sink */
+    audio?: AudioSink;
+    /** Timer tick source; defaults to a manual clock which never ticks on its own */
+    clock?: Clock;
+    /** Interpreter behaviours; defaults to the COSMAC VIP preset */
+    quirks?: Quirks;
+    /** Seconds of history kept for rewinding; 0 disables rewind. Defaults to 0. */
+    rewindSeconds?: number;
+    /** Seed of the random number generator used by CXNN; defaults to a random seed */
+    seed?: number;
+    /** What to do about each fault; unset faults use `DEFAULT_FAULT_POLICIES` */
+    faultPolicies?: Partial<FaultPolicies>;
+}
+
 export default class Chip8 {
     /** Default number of instructions per second */
     public static readonly DEFAULT_IPS = 500;
 
-    private static readonly MEM_SIZE = 4096;
-    private static readonly MAX_ROM_SIZE = 3232;
+    /** Version of the `Chip8State` format produced by this emulator */
+    public static readonly STATE_VERSION = 1;
+
+    /** Suggested number of seconds of rewind history */
+    public static readonly DEFAULT_REWIND_SECONDS = 10;
+
+    /** Memory size, large enough for XO-CHIP programs */
+    public static readonly MEM_SIZE = 0x10000;
 
     /** Program start location */
-    private static readonly START_ADDR = 0x200;
+    public static readonly START_ADDR = 0x200;
+
+    /** End of the built-in fonts, which start at address 0 */
+    public static readonly FONT_END = BIG_FONT_ADDR + BIG_FONT_DATA.length;
+
+    private static readonly MAX_ROM_SIZE = Chip8.MEM_SIZE - Chip8.START_ADDR;
 
     private static readonly STACK_SIZE = 16;
 
@@ -76,6 +222,25 @@ export default class Chip8 {
 
     /** System memory */
     private memory: Uint8Array = new Uint8Array(Chip8.MEM_SIZE);
+    /** Number of bytes of the loaded ROM */
+    private romSize = 0;
+
+    /** SUPER-CHIP RPL user flags. Kept across resets like the HP48's persistent storage. */
+    private rplFlags: Uint8Array = new Uint8Array(RPL_FLAG_COUNT);
+
+    /** Set once the program has executed 00FD */
+    private exited = false;
+
+    /** What to do about each fault */
+    private faultPolicies: FaultPolicies;
+    /** Fault execution halted on, or null while running */
+    private fault: Fault | null = null;
+    /** Address and opcode of the instruction executing, for fault reports */
+    private instructionPC = Chip8.START_ADDR;
+    private instructionOpcode: number | null = null;
+
+    /** Bit mask of the XO-CHIP planes drawn to */
+    private planes = PLANE_1;
 
     // Input handling state
     private awaitingKey = false;
@@ -83,42 +248,353 @@ export default class Chip8 {
     private pressedKeys = new Set<Keypad>();
 
     // Audio output state
-    private audioCtx: AudioContext = new AudioContext({latencyHint: 'interactive'});
-    private buzzer: OscillatorNode | null = null;
+    private audio: AudioSink;
     private isBuzzing = false;
-
-    constructor(display: Display) {
+    /** XO-CHIP audio pattern, or null until one is loaded */
+    private audioPattern: Uint8Array | null = null;
+    /** XO-CHIP pitch register */
+    private pitch = DEFAULT_PITCH;
+
+    /** Source of timer ticks */
+    private clock: Clock;
+
+    /** Interpreter behaviours */
+    private quirks: Quirks;
+
+    /** Source of CXNN's random numbers */
+    private random: Random;
+
+    // Debugging hooks
+    private stepListeners: StepListener[] = [];
+    private executedListeners: ExecutedListener[] = [];
+    private frameListeners: FrameListener[] = [];
+    private faultListeners: FaultListener[] = [];
+    private memoryWriteListeners: MemoryWriteListener[] = [];
+    /** Set while a debugger holds execution; clock ticks are ignored */
+    private timersFrozen = false;
+    /** Set when a sprite is drawn, to end the frame early under the `displayWait` quirk */
+    private drewSprite = false;
+
+    // Rewind state
+    /** States captured once per frame, or null when rewind is disabled */
+    private rewindBuffer: RewindBuffer | null = null;
+    private rewinding = false;
+
+    constructor(display: Display, options: Chip8Options = {}) {
         this.display = display;
+        this.audio = options.audio ?? new SilentAudioSink();
+        this.clock = options.clock ?? new ManualClock();
+        this.quirks = { ...(options.quirks ?? resolveQuirks(DEFAULT_QUIRKS_PRESET)) };
+        this.random = new Random(options.seed ?? randomSeed());
+        this.faultPolicies = { ...DEFAULT_FAULT_POLICIES, ...options.faultPolicies };
+        this.setRewindSeconds(options.rewindSeconds ?? 0);
         this.sp = this.stack.length - 1;
         this.loadFontData();
 
+        this.display.setResolution(LORES_WIDTH, LORES_HEIGHT);
         this.display.clear();
 
-        setInterval(() => {
-            this.decrementTimers();
-        }, 1000 / 60);
+        this.clock.start(() => {
+            this.endFrame();
+        });
     }
 
     private startBuzzer() {
-        this.buzzer = this.audioCtx.createOscillator();
-        this.buzzer.type = 'square';
-        this.buzzer.connect(this.audioCtx.destination);
-        this.buzzer.start();
-
+        this.audio.start(this.soundTimer / TIMER_HZ);
         this.isBuzzing = true;
     }
 
     private stopBuzzer() {
-        this.buzzer?.stop();
-        this.buzzer = null;
-
+        this.audio.stop();
         this.isBuzzing = false;
     }
 
+    /**
+     * Changes the interpreter behaviours. Takes effect from the next instruction.
+     * @param quirks new quirks configuration
+     */
+    public setQuirks(quirks: Quirks) {
+        this.quirks = { ...quirks };
+    }
+
+    public getQuirks(): Quirks {
+        return { ...this.quirks };
+    }
+
+    public getFaultPolicies(): FaultPolicies {
+        return { ...this.faultPolicies };
+    }
+
+    /**
+     * Changes what the interpreter does about faults. Takes effect from the next instruction.
+     * @param policies policies to change; unset faults keep their current policy
+     */
+    public setFaultPolicies(policies: Partial<FaultPolicies>) {
+        this.faultPolicies = { ...this.faultPolicies, ...policies };
+    }
+
+    /**
+     * Fault execution halted on, or null if the program is running. Cleared by a reset or
+     * by loading a state.
+     */
+    public getFault(): Fault | null {
+        return this.fault;
+    }
+
+    /**
+     * Restarts the random number generator, so CXNN produces the same numbers as in any
+     * other run with the same seed
+     * @param seed 32-bit seed
+     */
+    public setSeed(seed: number) {
+        this.random = new Random(seed);
+    }
+
+    /**
+     * Zeroes the SUPER-CHIP RPL user flags, which resets and ROM loads keep
+     */
+    public clearRPLFlags() {
+        this.rplFlags.fill(0);
+    }
+
+    /**
+     * Changes how much history is kept for rewinding. Discards the current history.
+     * @param seconds seconds of history to keep; 0 disables rewind
+     */
+    public setRewindSeconds(seconds: number) {
+        const capacity = Math.round(seconds * TIMER_HZ);
+        this.rewindBuffer = capacity > 0 ? new RewindBuffer(capacity) : null;
+    }
+
+    /**
+     * Starts or stops rewinding. While rewinding, every clock tick restores the previous
+     * frame instead of running the timers, and `step()` does nothing.
+     * @param active whether to rewind
+     */
+    public setRewinding(active: boolean) {
+        this.rewinding = active && this.rewindBuffer !== null;
+
+        if (this.rewinding && this.isBuzzing) {
+            this.stopBuzzer();
+        } else if (!this.rewinding && this.soundTimer > 0 && !this.isBuzzing) {
+            this.startBuzzer();
+        }
+    }
+
+    public isRewinding(): boolean {
+        return this.rewinding;
+    }
+
+    /**
+     * Runs one 60 Hz frame: executes up to `cycles` instructions, then advances the timers
+     * once. With the `displayWait` quirk, the frame's instructions end after a sprite is drawn.
+     *
+     * Intended for emulators driven by a frame scheduler rather than a clock, so timers
+     * are not advanced twice.
+     * @param cycles maximum number of instructions to execute
+     */
+    public runFrame(cycles: number) {
+        for (const listener of this.frameListeners) {
+            listener();
+        }
+
+        this.drewSprite = false;
+        for (let n = 0; n < cycles; n++) {
+            this.step();
+
+            if (this.drewSprite && this.quirks.displayWait) {
+                break;
+            }
+        }
+
+        this.endFrame();
+    }
+
+    /**
+     * Runs at the end of every frame: advances the timers and records the frame, or steps
+     * one frame back in time while rewinding.
+     */
+    private endFrame() {
+        if (this.timersFrozen) {
+            return;
+        }
+
+        if (this.rewinding) {
+            const state = this.rewindBuffer?.pop();
+            if (state) {
+                this.loadState(state);
+                if (this.isBuzzing) {
+                    this.stopBuzzer();
+                }
+            }
+            return;
+        }
+
+        this.decrementTimers();
+        this.rewindBuffer?.push(this.saveState());
+    }
+
+    /**
+     * Registers a listener which runs before every instruction and may veto it
+     * @param listener listener to add
+     * @returns function which removes the listener
+     */
+    public onBeforeStep(listener: StepListener): () => void {
+        this.stepListeners.push(listener);
+        return () => {
+            this.stepListeners = this.stepListeners.filter((other) => other !== listener);
+        };
+    }
+
+    /**
+     * Registers a listener which runs after every instruction that executes
+     * @param listener listener to add
+     * @returns function which removes the listener
+     */
+    public onAfterStep(listener: ExecutedListener): () => void {
+        this.executedListeners.push(listener);
+        return () => {
+            this.executedListeners = this.executedListeners.filter((other) => other !== listener);
+        };
+    }
+
+    /**
+     * Registers a listener which runs at the start of every frame run by `runFrame()`, such
+     * as to apply input on frame boundaries
+     * @param listener listener to add
+     * @returns function which removes the listener
+     */
+    public onBeforeFrame(listener: FrameListener): () => void {
+        this.frameListeners.push(listener);
+        return () => {
+            this.frameListeners = this.frameListeners.filter((other) => other !== listener);
+        };
+    }
+
+    /**
+     * Registers a listener which runs whenever an instruction raises a fault that isn't ignored
+     * @param listener listener to add
+     * @returns function which removes the listener
+     */
+    public onFault(listener: FaultListener): () => void {
+        this.faultListeners.push(listener);
+        return () => {
+            this.faultListeners = this.faultListeners.filter((other) => other !== listener);
+        };
+    }
+
+    /**
+     * Registers a listener which runs whenever an instruction writes memory
+     * @param listener listener to add
+     * @returns function which removes the listener
+     */
+    public onMemoryWrite(listener: MemoryWriteListener): () => void {
+        this.memoryWriteListeners.push(listener);
+        return () => {
+            this.memoryWriteListeners = this.memoryWriteListeners.filter((other) => other !== listener);
+        };
+    }
+
+    /**
+     * Stops or restarts the clock advancing the timers and recording rewind history
+     * @param frozen whether clock ticks should be ignored
+     */
+    public freezeTimers(frozen: boolean) {
+        this.timersFrozen = frozen;
+    }
+
+    /**
+     * Reads the CPU registers without affecting execution
+     */
+    public inspect(): Chip8Registers {
+        return {
+            pc: this.pc,
+            i: this.i,
+            v: this.v.slice(),
+            sp: this.sp,
+            callStack: Array.from(this.stack.subarray(this.sp + 1)).reverse(),
+            delayTimer: this.delayTimer,
+            soundTimer: this.soundTimer,
+            awaitingKey: this.awaitingKey,
+        };
+    }
+
+    /**
+     * Number of bytes of the loaded ROM, which starts at the program start location
+     */
+    public getROMSize(): number {
+        return this.romSize;
+    }
+
+    /**
+     * Copies a range of memory without affecting execution
+     * @param addr first address to read
+     * @param length number of bytes to read; clamped to the end of memory
+     */
+    public readMemory(addr: number, length: number): Uint8Array {
+        if (!Number.isInteger(addr) || addr < 0) {
+            throw Error(`Invalid memory address: ${addr}`);
+        }
+
+        return this.memory.slice(addr, addr + length);
+    }
+
+    /**
+     * Overwrites a range of memory from outside the program, such as from a memory editor.
+     *
+     * Memory write listeners are not notified, since no instruction performed the write.
+     * @param addr first address to write
+     * @param bytes bytes to write
+     */
+    public pokeMemory(addr: number, bytes: ArrayLike<number>) {
+        if (!Number.isInteger(addr) || addr < 0 || addr + bytes.length > this.memory.length) {
+            throw Error(`Memory write of ${bytes.length} bytes at ${addr} is out of range`);
+        }
+
+        for (let offset = 0; offset < bytes.length; offset++) {
+            const value = bytes[offset];
+            if (!Number.isInteger(value) || value < 0 || value > UINT8_MAX) {
+                throw Error(`Invalid byte value: ${value}`);
+            }
+        }
+
+        this.memory.set(bytes, addr);
+    }
+
+    /**
+     * Reads the 16-bit opcode at an address without affecting execution
+     * @param addr address to read; defaults to PC
+     */
+    public peekOpcode(addr: number = this.pc): number {
+        return (this.memory[addr] << 8) | this.memory[addr + 1];
+    }
+
+    /**
+     * Stops the timer clock and any playing sound
+     */
+    public shutdown() {
+        this.clock.stop();
+
+        if (this.isBuzzing) {
+            this.stopBuzzer();
+        }
+    }
+
     private loadFontData() {
         for (let i = 0; i < FONT_DATA.length; i++) {
             this.memory[i] = FONT_DATA[i];
         }
+
+        for (let i = 0; i < BIG_FONT_DATA.length; i++) {
+            this.memory[BIG_FONT_ADDR + i] = BIG_FONT_DATA[i];
+        }
+    }
+
+    /**
+     * Whether the program has exited through 00FD
+     */
+    public hasExited(): boolean {
+        return this.exited;
     }
 
     public reset() {
@@ -129,20 +605,109 @@ export default class Chip8 {
         this.stack = new Uint16Array(Chip8.STACK_SIZE);
         this.sp = this.stack.length - 1;
         this.memory = new Uint8Array(Chip8.MEM_SIZE);
+        this.romSize = 0;
         this.pc = Chip8.START_ADDR;
         this.i = 0;
         this.awaitingKey = false;
         this.keypadRegister = null;
         this.pressedKeys = new Set<Keypad>();
+        this.exited = false;
+        this.fault = null;
+        this.planes = PLANE_1;
+        this.rewinding = false;
+        this.rewindBuffer?.clear();
         this.loadFontData();
 
         if (this.isBuzzing) {
             this.stopBuzzer();
         }
 
+        this.audioPattern = null;
+        this.pitch = DEFAULT_PITCH;
+        this.audio.setPattern(null, this.pitch);
+
+        this.display.setResolution(LORES_WIDTH, LORES_HEIGHT);
         this.display.clear();
     }
 
+    /**
+     * Captures the full machine state
+     * @returns a snapshot which shares no buffers with the emulator
+     */
+    public saveState(): Chip8State {
+        return {
+            version: Chip8.STATE_VERSION,
+            pc: this.pc,
+            i: this.i,
+            v: this.v.slice(),
+            stack: this.stack.slice(),
+            sp: this.sp,
+            delayTimer: this.delayTimer,
+            soundTimer: this.soundTimer,
+            memory: this.memory.slice(),
+            rplFlags: this.rplFlags.slice(),
+            exited: this.exited,
+            planes: this.planes,
+            awaitingKey: this.awaitingKey,
+            keypadRegister: this.keypadRegister,
+            audioPattern: this.audioPattern?.slice() ?? null,
+            pitch: this.pitch,
+            rngState: this.random.getState(),
+            display: {
+                vWidth: this.display.vWidth,
+                vHeight: this.display.vHeight,
+                pixels: this.display.pixels.slice(),
+            },
+        };
+    }
+
+    /**
+     * Restores a snapshot taken by `saveState()`
+     * @param state snapshot to restore
+     */
+    public loadState(state: Chip8State) {
+        if (state.version !== Chip8.STATE_VERSION) {
+            throw Error(`Unsupported save state version ${state.version}; expected ${Chip8.STATE_VERSION}`);
+        }
+        if (state.memory.length !== Chip8.MEM_SIZE || state.v.length !== 16 || state.stack.length !== Chip8.STACK_SIZE) {
+            throw Error("Save state has the wrong memory, register or stack size");
+        }
+        if (state.display.pixels.length !== state.display.vWidth * state.display.vHeight) {
+            throw Error("Save state pixel buffer does not match its resolution");
+        }
+
+        this.pc = state.pc;
+        this.i = state.i;
+        this.v = state.v.slice();
+        this.stack = state.stack.slice();
+        this.sp = state.sp;
+        this.delayTimer = state.delayTimer;
+        this.soundTimer = state.soundTimer;
+        this.memory = state.memory.slice();
+        this.rplFlags = state.rplFlags.slice();
+        this.exited = state.exited;
+        this.fault = null;
+        this.planes = state.planes;
+        this.awaitingKey = state.awaitingKey;
+        this.keypadRegister = state.keypadRegister;
+        this.audioPattern = state.audioPattern?.slice() ?? null;
+        this.pitch = state.pitch;
+        if (state.rngState !== undefined) {
+            this.random.setState(state.rngState);
+        }
+
+        this.audio.setPattern(this.audioPattern, this.pitch);
+        if (this.soundTimer > 0 && !this.isBuzzing) {
+            this.startBuzzer();
+        } else if (this.soundTimer === 0 && this.isBuzzing) {
+            this.stopBuzzer();
+        }
+
+        this.display.setResolution(state.display.vWidth, state.display.vHeight);
+        this.display.pixels.set(state.display.pixels);
+        this.display.invalidate();
+    }
+
     /**
      * Loads a ROM binary into EMU memory
      * @param rom binary ROM data
@@ -150,6 +715,7 @@ export default class Chip8 {
     public loadROM(rom: Uint8Array) {
         this.reset();
         const readSize = rom.length <= Chip8.MAX_ROM_SIZE ? rom.length : Chip8.MAX_ROM_SIZE;
+        this.romSize = readSize;
 
         for (let i = 0; i < readSize; i++) {
             const writeLoc = Chip8.START_ADDR + i;
@@ -157,28 +723,72 @@ export default class Chip8 {
         }
     }
 
-    public handleKeyDown(code: string) {
-        const keypad = inputMap.get(code);
-        if (keypad === undefined) {
-            return;
-        }
-
-        this.pressedKeys.add(keypad);
+    /**
+     * Presses a hex keypad key
+     * @param key keypad key, from 0x0 to 0xF
+     */
+    public pressKey(key: number) {
+        Chip8.checkKey(key);
+        this.pressedKeys.add(key as Keypad);
 
-        if (this.awaitingKey && this.keypadRegister) {
-            this.v[this.keypadRegister] = keypad;
+        if (this.awaitingKey && this.keypadRegister !== null) {
+            this.v[this.keypadRegister] = key;
             this.awaitingKey = false;
             this.keypadRegister = null;
         }
     }
 
-    public handleKeyUp(code: string) {
-        const keypad = inputMap.get(code);
-        if (!keypad) {
-            return;
+    /**
+     * Releases a hex keypad key
+     * @param key keypad key, from 0x0 to 0xF
+     */
+    public releaseKey(key: number) {
+        Chip8.checkKey(key);
+        this.pressedKeys.delete(key as Keypad);
+    }
+
+    /**
+     * Lists the hex keypad keys currently held
+     */
+    public getPressedKeys(): number[] {
+        return [...this.pressedKeys];
+    }
+
+    /**
+     * Reads the held keys as a bit mask, with bit N set while key N is held
+     */
+    public getKeyState(): number {
+        let mask = 0;
+        for (const key of this.pressedKeys) {
+            mask |= 1 << key;
+        }
+        return mask;
+    }
+
+    /**
+     * Presses and releases keys to match a bit mask. Newly pressed keys are pressed in
+     * ascending order, so the lowest one satisfies a pending FX0A.
+     * @param mask bit mask with bit N set to hold key N
+     */
+    public setKeyState(mask: number) {
+        if (!Number.isInteger(mask) || mask < 0 || mask > 0xFFFF) {
+            throw Error(`Invalid key state: ${mask}`);
         }
 
-        this.pressedKeys.delete(keypad);
+        for (let key = 0; key <= Keypad.KeyF; key++) {
+            const held = (mask & (1 << key)) !== 0;
+            if (held && !this.pressedKeys.has(key)) {
+                this.pressKey(key);
+            } else if (!held && this.pressedKeys.has(key)) {
+                this.releaseKey(key);
+            }
+        }
+    }
+
+    private static checkKey(key: number) {
+        if (!Number.isInteger(key) || key < 0 || key > Keypad.KeyF) {
+            throw Error(`Invalid keypad key: ${key}`);
+        }
     }
 
     /**
@@ -191,29 +801,109 @@ export default class Chip8 {
 
         if (this.soundTimer > 0) {
             this.soundTimer -= 1;
-        } else {
-            if (this.isBuzzing) {
-                this.stopBuzzer();
-            }
+        }
+
+        if (this.soundTimer === 0 && this.isBuzzing) {
+            this.stopBuzzer();
         }
     }
 
+    /**
+     * Writes a byte of memory on behalf of an instruction
+     * @param addr address to write
+     * @param value byte to write
+     */
+    private writeMemory(addr: number, value: number) {
+        if (addr >= this.memoryEnd()) {
+            // Writes past the end of memory are dropped; `checkAccess()` raises the fault
+            return;
+        }
+
+        this.memory[addr] = value;
+
+        for (const listener of this.memoryWriteListeners) {
+            listener(addr, this.memory[addr]);
+        }
+    }
+
+    /**
+     * Reads a byte of memory on behalf of an instruction
+     * @param addr address to read
+     * @returns the byte, or 0 past the end of memory; `checkAccess()` raises the fault
+     */
+    private readMemoryByte(addr: number): number {
+        return addr < this.memoryEnd() ? this.memory[addr] : 0;
+    }
+
+    /**
+     * @returns the end of the memory instructions can access, which the `memory4K` quirk limits
+     */
+    private memoryEnd(): number {
+        return this.quirks.memory4K ? MEMORY_4K : Chip8.MEM_SIZE;
+    }
+
     /**
      * Reads a 16-bit value from memory where PC indicates.
      * 
      * PC is incremented by 2
+     * @returns the value, or null if PC was past the end of memory and execution halted
      */
-    private readWord(): number {
+    private readWord(): number | null {
+        if (this.pc > Chip8.MEM_SIZE - INSTRUCTION_SIZE) {
+            if (this.raiseFault("pcOutOfBounds")) {
+                return null;
+            }
+            this.pc = Chip8.START_ADDR;
+        }
+
         const byte0 = this.memory[this.pc];
         const byte1 = this.memory[this.pc+1];
         this.pc += INSTRUCTION_SIZE;
 
-        // Reset PC to the start address if it goes past 0x1000;
-        if (this.pc >= 0x1000) {
-            this.pc = Chip8.START_ADDR;
+        return byte0 << 8 | byte1;
+    }
+
+    /**
+     * Reports a fault in the executing instruction, as its policy says
+     * @param type kind of fault
+     * @param addr memory address accessed out of bounds, if any
+     * @returns true if execution halted, in which case the instruction must do nothing more
+     */
+    private raiseFault(type: FaultType, addr: number | null = null): boolean {
+        const policy = this.faultPolicies[type];
+        if (policy === "ignore") {
+            return false;
         }
 
-        return byte0 << 8 | byte1;
+        const fault: Fault = { type, pc: this.instructionPC, opcode: this.instructionOpcode, addr };
+        const halted = policy === "halt";
+        if (halted) {
+            this.fault = fault;
+            // Leave PC on the faulting instruction
+            this.pc = this.instructionPC;
+        } else {
+            console.warn(describeFault(fault));
+        }
+
+        for (const listener of this.faultListeners) {
+            listener(fault, halted);
+        }
+        return halted;
+    }
+
+    /**
+     * Checks that an instruction's memory access lies within memory, raising a fault if not
+     * @param addr first address accessed
+     * @param length number of bytes accessed
+     * @returns false if execution halted, in which case the instruction must do nothing more
+     */
+    private checkAccess(addr: number, length: number): boolean {
+        const end = addr + length;
+        const memoryEnd = this.memoryEnd();
+        if (length > 0 && end > memoryEnd) {
+            return !this.raiseFault("memoryOutOfBounds", Math.max(addr, memoryEnd));
+        }
+        return true;
     }
 
     /**
@@ -234,7 +924,21 @@ export default class Chip8 {
         }
     }
 
+    /**
+     * Skips the next instruction, including both words of an XO-CHIP long I load
+     */
+    private skipNextInstruction() {
+        this.pc += this.peekOpcode() === LONG_LOAD_OPCODE ? INSTRUCTION_SIZE * 2 : INSTRUCTION_SIZE;
+    }
+
     private callSubroutine(args: number) {
+        if (this.sp < 0) {
+            if (!this.raiseFault("stackOverflow")) {
+                this.pc = args;
+            }
+            return;
+        }
+
         // Push current addr onto the stack
         this.stack[this.sp] = this.pc;
         this.sp -= 1;
@@ -244,6 +948,11 @@ export default class Chip8 {
     }
 
     private returnFromSubroutine() {
+        if (this.sp >= this.stack.length - 1) {
+            this.raiseFault("stackUnderflow");
+            return;
+        }
+
         // Pop return addr from stack
         this.sp += 1;
         this.pc = this.stack[this.sp];
@@ -268,67 +977,70 @@ export default class Chip8 {
                 break;
             case 0x1:
                 this.v[idxX] |= this.v[idxY];
+                if (this.quirks.vfReset) {
+                    this.v[0xF] = 0;
+                }
                 break;
             case 0x2:
                 this.v[idxX] &= this.v[idxY];
+                if (this.quirks.vfReset) {
+                    this.v[0xF] = 0;
+                }
                 break;
             case 0x3:
                 this.v[idxX] ^= this.v[idxY];
-                break;
-            case 0x4:
-                this.v[idxX] += this.v[idxY];
-                if (this.v[idxX] > UINT8_MAX) {
-                    // Carry result and set VF
-                    this.v[idxX] - UINT8_MAX;
-                    this.v[0xF] = 1;
-                }
-                break;
-            case 0x5:
-                this.v[idxX] -= this.v[idxY];
-                if (this.v[idxX] < 0) {
-                    // Borrow result and set VF
+                if (this.quirks.vfReset) {
                     this.v[0xF] = 0;
-                    this.v[idxX] = UINT8_MAX + this.v[idxX];
-                } else {
-                    // Only set VF
-                    this.v[0xF] = 1;
                 }
                 break;
-            case 0x6:
-                this.v[0xF] = this.v[idxX] & 0b1;
-                this.v[idxX] >>= 1;
+            case 0x4: {
+                // VF is set after the result, so it holds the carry even when it is VX
+                const sum = this.v[idxX] + this.v[idxY];
+                this.v[idxX] = sum;
+                this.v[0xF] = sum > UINT8_MAX ? 1 : 0;
                 break;
-            case 0x7:
+            }
+            case 0x5: {
+                // VF is set to 1 when there is no borrow
+                const noBorrow = this.v[idxX] >= this.v[idxY] ? 1 : 0;
+                this.v[idxX] = this.v[idxX] - this.v[idxY];
+                this.v[0xF] = noBorrow;
+                break;
+            }
+            case 0x6: {
+                const value = this.quirks.shiftUsesVY ? this.v[idxY] : this.v[idxX];
+                this.v[idxX] = value >> 1;
+                this.v[0xF] = value & 0b1;
+                break;
+            }
+            case 0x7: {
+                const noBorrow = this.v[idxY] >= this.v[idxX] ? 1 : 0;
                 this.v[idxX] = this.v[idxY] - this.v[idxX];
-                if (this.v[idxX] < 0) {
-                    // Borrow result and set VF
-                    this.v[0xF] = 0;
-                    this.v[idxX] = UINT8_MAX + this.v[idxX];
-                } else {
-                    // Only set VF
-                    this.v[0xF] = 1;
-                }
+                this.v[0xF] = noBorrow;
                 break;
-            case 0xE:
-                this.v[0xF] = this.v[idxX] & 0b10000000;
-                this.v[idxX] <<= 1;
+            }
+            case 0xE: {
+                const value = this.quirks.shiftUsesVY ? this.v[idxY] : this.v[idxX];
+                this.v[idxX] = value << 1;
+                this.v[0xF] = value >> 7;
                 break;
+            }
             default:
-                console.warn(`Unrecognized bit or math op: 0x8${args.toString(16)}`);
+                this.raiseFault("invalidOpcode");
         }
     }
 
     private skipIfVXeqNN(args: number) {
         const [regIdx, immediate] = Chip8.splitArgs(args, ArgLayout.XNN);
         if (this.v[regIdx] === immediate) {
-            this.pc += INSTRUCTION_SIZE;
+            this.skipNextInstruction();
         }
     }
 
     private skipIfVXneqNN(args: number) {
         const [regIdx, immediate] = Chip8.splitArgs(args, ArgLayout.XNN);
         if (this.v[regIdx] !== immediate) {
-            this.pc += INSTRUCTION_SIZE;
+            this.skipNextInstruction();
         }
     }
 
@@ -336,7 +1048,41 @@ export default class Chip8 {
         const [idxX, idxY, _z] = Chip8.splitArgs(args, ArgLayout.XYZ);
 
         if (this.v[idxX] === this.v[idxY]) {
-            this.pc += INSTRUCTION_SIZE;
+            this.skipNextInstruction();
+        }
+    }
+
+    /**
+     * Saves VX through VY to memory at I, without changing I
+     * @param args
+     */
+    private saveRegisterRange(args: number) {
+        const [idxX, idxY, _z] = Chip8.splitArgs(args, ArgLayout.XYZ);
+        const direction = idxX <= idxY ? 1 : -1;
+        const count = Math.abs(idxY - idxX) + 1;
+        if (!this.checkAccess(this.i, count)) {
+            return;
+        }
+
+        for (let offset = 0; offset < count; offset++) {
+            this.writeMemory(this.i + offset, this.v[idxX + (offset * direction)]);
+        }
+    }
+
+    /**
+     * Loads VX through VY from memory at I, without changing I
+     * @param args
+     */
+    private loadRegisterRange(args: number) {
+        const [idxX, idxY] = Chip8.splitArgs(args, ArgLayout.XYZ);
+        const direction = idxX <= idxY ? 1 : -1;
+        const count = Math.abs(idxY - idxX) + 1;
+        if (!this.checkAccess(this.i, count)) {
+            return;
+        }
+
+        for (let offset = 0; offset < count; offset++) {
+            this.v[idxX + (offset * direction)] = this.readMemoryByte(this.i + offset);
         }
     }
 
@@ -345,58 +1091,171 @@ export default class Chip8 {
      * @param args 
      */
     private skipIfVXneqVY(args: number) {
-        const [idxX, idxY, _z] = Chip8.splitArgs(args, ArgLayout.XYZ);
+        const [idxX, idxY] = Chip8.splitArgs(args, ArgLayout.XYZ);
 
         if (this.v[idxX] !== this.v[idxY]) {
-            this.pc += INSTRUCTION_SIZE;
+            this.skipNextInstruction();
         }
     }
 
     private randByte(args: number) {
         const [regIdx, immediate] = Chip8.splitArgs(args, ArgLayout.XNN);
 
-        let randByte = Math.random() * 255;
-        randByte -= (randByte % 1);
-        randByte &= immediate;
+        this.v[regIdx] = this.random.nextByte() & immediate;
+    }
+
+    /**
+     * Executes the 0x0 category of system ops
+     * @param args last 12 bits of the opcode
+     */
+    private systemOps(args: number) {
+        if ((args & 0xFF0) === 0x0C0) {
+            // Scroll down N rows
+            this.display.scrollDown(args & 0xF, this.planes);
+            this.display.invalidate();
+            return;
+        }
+
+        if ((args & 0xFF0) === 0x0D0) {
+            // Scroll up N rows
+            this.display.scrollUp(args & 0xF, this.planes);
+            this.display.invalidate();
+            return;
+        }
 
-        this.v[regIdx] = randByte;
+        switch (args) {
+            case 0x0E0:
+                // Clear the selected planes
+                this.display.clear(this.planes);
+                break;
+            case 0x0EE:
+                // Return from subroutine
+                this.returnFromSubroutine();
+                break;
+            case 0x0FB:
+                // Scroll right 4 columns
+                this.display.scrollRight(4, this.planes);
+                this.display.invalidate();
+                break;
+            case 0x0FC:
+                // Scroll left 4 columns
+                this.display.scrollLeft(4, this.planes);
+                this.display.invalidate();
+                break;
+            case 0x0FD:
+                // Exit the interpreter
+                this.exited = true;
+                break;
+            case 0x0FE:
+                // Switch to low resolution
+                this.display.setResolution(LORES_WIDTH, LORES_HEIGHT);
+                break;
+            case 0x0FF:
+                // Switch to high resolution
+                this.display.setResolution(HIRES_WIDTH, HIRES_HEIGHT);
+                break;
+            default:
+                this.raiseFault("invalidOpcode");
+        }
     }
 
     private drawSprite(args: number) {
-        const [idxX, idxY, height] = Chip8.splitArgs(args, ArgLayout.XYZ);
-        const x = this.v[idxX] % Display.vWidth;
-        const y = this.v[idxY] % Display.vHeight;
-
-        for (let row = 0; row < height; row++) {
-            const readLoc = this.i + row;
-            const spriteLine = this.memory[readLoc];
-            for (let col = 0; col < 8; col++) {
-                const bit = (spriteLine >> (7 - col)) & 0b1;
-                const locX = x + col;
-                const locY = y + row;
-                if (bit === 0b1) {
-                    const didUnset = this.display.toggleVPixel(locX, locY);
-                    if (didUnset) {
-                        this.v[0xF] = 0b1;
+        const [idxX, idxY, n] = Chip8.splitArgs(args, ArgLayout.XYZ);
+        // DXY0 draws a 16x16 sprite stored as two bytes per row
+        const spriteWidth = n === 0 ? 16 : 8;
+        const height = n === 0 ? 16 : n;
+        const bytesPerRow = spriteWidth / 8;
+        const width = this.display.vWidth;
+        const vHeight = this.display.vHeight;
+        // The starting position always wraps; the quirk decides what happens past the edges
+        const x = this.v[idxX] % width;
+        const y = this.v[idxY] % vHeight;
+
+        let planeCount = 0;
+        for (let plane = PLANE_1; plane <= ALL_PLANES; plane <<= 1) {
+            planeCount += (this.planes & plane) !== 0 ? 1 : 0;
+        }
+        if (!this.checkAccess(this.i, planeCount * height * bytesPerRow)) {
+            return;
+        }
+
+        this.drewSprite = true;
+        this.v[0xF] = 0;
+
+        // Each selected plane takes its own copy of the sprite data, first plane first
+        let spriteAddr = this.i;
+        for (let plane = PLANE_1; plane <= ALL_PLANES; plane <<= 1) {
+            if ((this.planes & plane) === 0) {
+                continue;
+            }
+
+            for (let row = 0; row < height; row++) {
+                const readLoc = spriteAddr + (row * bytesPerRow);
+                let spriteLine = 0;
+                for (let byte = 0; byte < bytesPerRow; byte++) {
+                    spriteLine = (spriteLine << 8) | this.readMemoryByte(readLoc + byte);
+                }
+
+                let locY = y + row;
+                if (locY >= vHeight) {
+                    if (this.quirks.clipSprites) {
+                        break;
+                    }
+                    locY %= vHeight;
+                }
+
+                for (let col = 0; col < spriteWidth; col++) {
+                    const bit = (spriteLine >> (spriteWidth - 1 - col)) & 0b1;
+                    let locX = x + col;
+                    if (locX >= width) {
+                        if (this.quirks.clipSprites) {
+                            break;
+                        }
+                        locX %= width;
+                    }
+
+                    if (bit === 0b1) {
+                        const didUnset = this.display.toggleVPixel(locX, locY, plane);
+                        if (didUnset) {
+                            this.v[0xF] = 0b1;
+                        }
                     }
                 }
             }
+
+            spriteAddr += height * bytesPerRow;
         }
 
-        this.display.render();
+        this.display.invalidate();
     }
 
     private regDump(stopIdx: number) {
+        if (!this.checkAccess(this.i, stopIdx + 1)) {
+            return;
+        }
+
         for(let i = 0; i <= stopIdx; i++) {
             const writeLoc = this.i + i;
-            this.memory[writeLoc] = this.v[i];
+            this.writeMemory(writeLoc, this.v[i]);
+        }
+
+        if (this.quirks.loadStoreIncrementsI) {
+            this.i += stopIdx + 1;
         }
     }
 
     private regLoad(stopIdx: number) {
+        if (!this.checkAccess(this.i, stopIdx + 1)) {
+            return;
+        }
+
         for(let i = 0; i <= stopIdx; i++) {
             const readLoc = this.i + i;
-            this.v[i] = this.memory[readLoc];
+            this.v[i] = this.readMemoryByte(readLoc);
+        }
+
+        if (this.quirks.loadStoreIncrementsI) {
+            this.i += stopIdx + 1;
         }
     }
 
@@ -405,15 +1264,42 @@ export default class Chip8 {
         const ones = num % 10;
         const tens = ((num - ones) % 100);
         const hundreds = ((num - (tens + ones)) % 1000);
+        if (!this.checkAccess(this.i, 3)) {
+            return;
+        }
 
-        this.memory[this.i] = hundreds / 100;
-        this.memory[this.i + 1] = tens / 10;
-        this.memory[this.i + 2] = ones;
+        this.writeMemory(this.i, hundreds / 100);
+        this.writeMemory(this.i + 1, tens / 10);
+        this.writeMemory(this.i + 2, ones);
     }
 
     private miscOps(args: number) {
         const [idxX, n] = Chip8.splitArgs(args, ArgLayout.XNN);
         switch(n) {
+            case 0x00:
+                if (idxX !== 0) {
+                    this.raiseFault("invalidOpcode");
+                    break;
+                }
+                // Load I with the 16-bit address in the next word
+                this.i = this.readWord() ?? this.i;
+                break;
+            case 0x01:
+                // Select the drawing planes, given by X as a bit mask
+                this.planes = idxX & ALL_PLANES;
+                break;
+            case 0x02:
+                if (idxX !== 0) {
+                    this.raiseFault("invalidOpcode");
+                    break;
+                }
+                if (!this.checkAccess(this.i, PATTERN_SIZE)) {
+                    break;
+                }
+                // Load the audio pattern from memory at I
+                this.audioPattern = Uint8Array.from({ length: PATTERN_SIZE }, (_, n) => this.readMemoryByte(this.i + n));
+                this.audio.setPattern(this.audioPattern, this.pitch);
+                break;
             case 0x07:
                 // Set VX to value in delayTimer
                 this.v[idxX] = this.delayTimer;
@@ -429,8 +1315,10 @@ export default class Chip8 {
             case 0x18:
                 // Set sound timer to VX
                 this.soundTimer = this.v[idxX];
-                if (!this.isBuzzing && this.soundTimer > 0) {
+                if (this.soundTimer > 0) {
                     this.startBuzzer();
+                } else if (this.isBuzzing) {
+                    this.stopBuzzer();
                 }
                 break;
             case 0x1E:
@@ -441,10 +1329,21 @@ export default class Chip8 {
                 // Set I to the location of the sprite for the char in VX
                 this.i = this.v[idxX] * FONT_CHAR_WIDTH;
                 break;
+            case 0x30:
+                // Set I to the location of the large sprite for the char in VX
+                this.i = BIG_FONT_ADDR + ((this.v[idxX] & 0xF) * BIG_FONT_CHAR_WIDTH);
+                break;
             case 0x33:
                 // Store the binary-coded decimal representation of VX
                 this.setBCD(idxX);
                 break;
+            case 0x3A:
+                // Set the audio pattern pitch to VX
+                this.pitch = this.v[idxX];
+                if (this.audioPattern) {
+                    this.audio.setPattern(this.audioPattern, this.pitch);
+                }
+                break;
             case 0x55:
                 // Dump registers to memory
                 this.regDump(idxX);
@@ -453,8 +1352,16 @@ export default class Chip8 {
                 // Load registers from memory
                 this.regLoad(idxX);
                 break;
+            case 0x75:
+                // Save V0 through VX to the RPL flags
+                this.rplFlags.set(this.v.subarray(0, idxX + 1));
+                break;
+            case 0x85:
+                // Load V0 through VX from the RPL flags
+                this.v.set(this.rplFlags.subarray(0, idxX + 1));
+                break;
             default:
-                console.warn(`Unrecognized misc. op: 0xF${args.toString(16)}`);
+                this.raiseFault("invalidOpcode");
         }
     }
 
@@ -465,27 +1372,41 @@ export default class Chip8 {
             case 0x9E:
                 // Skips the next instruction if the key stored in VX is pressed
                 if (this.pressedKeys.has(expectedKey)) {
-                    this.pc += INSTRUCTION_SIZE;
+                    this.skipNextInstruction();
                 }
                 break;
             case 0xA1:
                 // Skips the next instruction if the key stored in VX is not pressed
                 if (!this.pressedKeys.has(expectedKey)) {
-                    this.pc += INSTRUCTION_SIZE;
+                    this.skipNextInstruction();
                 }
                 break;
             default:
-                console.warn(`Unrecognized input branch op: 0xE${args.toString(16)}`);
+                this.raiseFault("invalidOpcode");
         }
     }
 
     public step() {
-        if (this.awaitingKey) {
-            // Skip step if awaiting keypress
+        if (this.exited || this.fault || this.awaitingKey || this.rewinding) {
+            // Skip step if exited, halted on a fault, awaiting keypress or rewinding
             return;
         }
 
+        const startPC = this.pc;
+        const nextOpcode = this.peekOpcode(startPC);
+        for (const listener of this.stepListeners) {
+            if (listener(startPC, nextOpcode) === false) {
+                return;
+            }
+        }
+
+        this.instructionPC = startPC;
+        this.instructionOpcode = null;
         const opcode = this.readWord();
+        if (opcode === null) {
+            return;
+        }
+        this.instructionOpcode = opcode;
         // Get first 4 bits for category
         const category = opcode >> 12;
         // Take last 12 bits for arguments
@@ -493,18 +1414,8 @@ export default class Chip8 {
 
         switch (category) {
             case 0x0:
-                switch (args) {
-                    case 0x0E0:
-                        // Clear display
-                        this.display.clear();
-                        break;
-                    case 0x0EE:
-                        // Return from subroutine
-                        this.returnFromSubroutine();
-                        break;
-                    default:
-                        console.warn(`Unrecognized opcode: 0x${opcode.toString(16)}`);
-                }
+                // System, display and subroutine ops
+                this.systemOps(args);
                 break;
             case 0x1:
                 // Jumps to address specified by args
@@ -521,7 +1432,21 @@ export default class Chip8 {
                 this.skipIfVXneqNN(args);
                 break;
             case 0x5:
-                this.skipIfVXeqVY(args);
+                switch (args & 0xF) {
+                    case 0x0:
+                        this.skipIfVXeqVY(args);
+                        break;
+                    case 0x2:
+                        // Save VX through VY to memory
+                        this.saveRegisterRange(args);
+                        break;
+                    case 0x3:
+                        // Load VX through VY from memory
+                        this.loadRegisterRange(args);
+                        break;
+                    default:
+                        this.raiseFault("invalidOpcode");
+                }
                 break;
             case 0x6:
                 // Sets VX to NN;
@@ -543,10 +1468,12 @@ export default class Chip8 {
                 // Set I to immediate value (args)
                 this.i = args;
                 break;
-            case 0xB:
-                // Jump to address NNN (args) plus V0
-                this.pc = this.v[0x0] + args;
+            case 0xB: {
+                // Jump to address NNN (args) plus V0, or XNN plus VX
+                const offsetReg = this.quirks.jumpUsesVX ? (args >> 8) & 0xF : 0x0;
+                this.pc = this.v[offsetReg] + args;
                 break;
+            }
             case 0xC:
                 // Set VX to a random number
                 this.randByte(args);
@@ -564,7 +1491,13 @@ export default class Chip8 {
                 this.miscOps(args);
                 break;
             default:
-                console.warn(`Unrecognized opcode: 0x${opcode.toString(16)}`);
+                this.raiseFault("invalidOpcode");
+        }
+
+        if (!this.fault) {
+            for (const listener of this.executedListeners) {
+                listener(startPC, opcode);
+            }
         }
     }
 }
\ No newline at end of file
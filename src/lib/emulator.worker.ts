@@ -0,0 +1,5 @@
+import { hostEmulator } from "./emulator_host";
+import type { MessageEndpoint } from "./protocol";
+
+// Dedicated worker entry point: the worker's global scope is the channel to the page
+hostEmulator(self as unknown as MessageEndpoint);
@@ -0,0 +1,205 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EmulatorClient } from './emulator_client';
+import { hostEmulator } from './emulator_host';
+import { FramebufferDisplay } from './display';
+import { SilentAudioSink } from './audio';
+import type { FrameSource } from './scheduler';
+import type { MessageEndpoint } from './protocol';
+
+/**
+ * Frame source which only refreshes when told to
+ */
+class ManualFrames implements FrameSource {
+	private callback: ((time: number) => void) | null = null;
+	private time = 0;
+
+	public request(callback: (time: number) => void): number {
+		this.callback = callback;
+		return 1;
+	}
+
+	public cancel() {
+		this.callback = null;
+	}
+
+	public now(): number {
+		return this.time;
+	}
+
+	public refresh() {
+		this.time += 1000 / 60;
+		this.callback?.(this.time);
+	}
+}
+
+/** Lets queued messages on both ends of the channel be delivered */
+function deliver(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+let cleanups: Array<() => void> = [];
+
+afterEach(() => {
+	cleanups.forEach((cleanup) => cleanup());
+	cleanups = [];
+});
+
+function connect() {
+	const channel = new MessageChannel();
+	const frames = new ManualFrames();
+	const stopHost = hostEmulator(channel.port2 as unknown as MessageEndpoint, frames);
+	const display = new FramebufferDisplay();
+	const client = new EmulatorClient(display, new SilentAudioSink(), channel.port1 as unknown as MessageEndpoint);
+	cleanups.push(() => {
+		stopHost();
+		channel.port1.close();
+		channel.port2.close();
+	});
+	return { client, display, frames };
+}
+
+describe('EmulatorClient', () => {
+	it('mirrors the display, registers and memory of the worker', async () => {
+		const { client, display, frames } = connect();
+		// I = font '0'; V0 = 0x2A; draw at (V1, V1)
+		client.loadROM(new Uint8Array([0xa0, 0x00, 0x60, 0x2a, 0xd1, 0x15]));
+		client.scheduler.pause();
+		client.scheduler.advanceFrame();
+		await deliver();
+
+		frames.refresh();
+		await deliver();
+
+		expect(client.inspect().v[0]).toBe(0x2a);
+		expect(client.getROMSize()).toBe(6);
+		expect(client.readMemory(0x200, 2)).toEqual(new Uint8Array([0xa0, 0x00]));
+		expect(display.getVPixel(0, 0)).toBe(true);
+		expect(display.getVPixel(4, 0)).toBe(false);
+	});
+
+	it('answers save state requests', async () => {
+		const { client } = connect();
+		client.loadROM(new Uint8Array([0x60, 0x01]));
+		await deliver();
+
+		const state = await client.saveState();
+		expect(state.memory[0x201]).toBe(0x01);
+	});
+
+	it('mirrors the debugger status', async () => {
+		const { client } = connect();
+		client.emuDebugger.toggleBreakpoint(0x204);
+		await deliver();
+
+		expect(client.emuDebugger.getBreakpoints()).toEqual([0x204]);
+	});
+
+	it('applies keys at the start of the next frame', async () => {
+		const { client, frames } = connect();
+		client.loadROM(new Uint8Array([0x12, 0x00]));
+		client.scheduler.pause();
+		client.pressKey(0x5);
+		await deliver();
+
+		frames.refresh();
+		await deliver();
+		expect(client.getPressedKeys()).toEqual([]);
+
+		client.scheduler.advanceFrame();
+		await deliver();
+		frames.refresh();
+		await deliver();
+		expect(client.getPressedKeys()).toEqual([0x5]);
+	});
+
+	it('records movies of the keys held in each frame', async () => {
+		const { client, frames } = connect();
+		client.loadROM(new Uint8Array([0x12, 0x00]));
+		client.scheduler.pause();
+		client.startRecording('abcd');
+		client.scheduler.advanceFrame();
+		client.pressKey(0x2);
+		client.scheduler.advanceFrame();
+		await deliver();
+		frames.refresh();
+		await deliver();
+
+		expect(client.getMovieStatus()).toEqual({ mode: 'recording', frame: 2, length: 2 });
+		const movie = await client.stopRecording();
+		expect(movie?.romHash).toBe('abcd');
+		expect(movie?.frames).toEqual([0, 1 << 2]);
+		expect(await client.stopRecording()).toBeNull();
+	});
+
+	it('mirrors memory writes only once the worker accepts them', async () => {
+		const { client, frames } = connect();
+		const errors: string[] = [];
+		client.onError((message) => errors.push(message));
+		client.loadROM(new Uint8Array([0x12, 0x00]));
+		client.scheduler.pause();
+		client.startRecording('abcd');
+		client.pokeMemory(0x300, [0x2a]);
+		await deliver();
+		frames.refresh();
+		await deliver();
+
+		expect(errors).toHaveLength(1);
+		expect(client.readMemory(0x300, 1)).toEqual(new Uint8Array([0x00]));
+
+		await client.stopRecording();
+		client.pokeMemory(0x300, [0x2a]);
+		await deliver();
+		frames.refresh();
+		await deliver();
+
+		expect(client.readMemory(0x300, 1)).toEqual(new Uint8Array([0x2a]));
+	});
+
+	it('records and exports traces', async () => {
+		const { client, frames } = connect();
+		client.scheduler.pause();
+		client.setTracing(true);
+		client.scheduler.advanceFrame();
+		// Loading a ROM restarts the trace
+		client.loadROM(new Uint8Array([0x60, 0x2a, 0x12, 0x02]));
+		client.scheduler.advanceFrame();
+		client.setTracing(false);
+		client.scheduler.advanceFrame();
+		await deliver();
+		frames.refresh();
+		await deliver();
+
+		const status = client.getTraceStatus();
+		expect(status?.recording).toBe(false);
+		const lines = (await client.exportTrace()).trimEnd().split('\n');
+		expect(lines[1]).toBe('0200 602A  v0 := 0x2A  ; V0=2A');
+		expect(lines[2]).toBe('0202 1202  jump 0x202');
+		expect(lines).toHaveLength((status?.length ?? 0) + 1);
+	});
+
+	it('answers profile requests', async () => {
+		const { client } = connect();
+		expect(await client.getProfile()).toBeNull();
+
+		client.scheduler.pause();
+		client.setProfiling(true);
+		client.loadROM(new Uint8Array([0x60, 0x2a, 0x12, 0x02]));
+		client.scheduler.advanceFrame();
+		await deliver();
+
+		const profile = await client.getProfile();
+		expect(profile?.counts[0x200]).toBe(1);
+		expect(profile?.instructions).toBe(profile?.subroutines[0].exclusive);
+	});
+
+	it('reports errors from commands', async () => {
+		const { client } = connect();
+		const errors: string[] = [];
+		client.onError((message) => errors.push(message));
+		client.loadState({ version: -1 } as never);
+		await deliver();
+
+		expect(errors).toHaveLength(1);
+		expect(errors[0]).toMatch(/version/);
+	});
+});
@@ -0,0 +1,573 @@
+import Chip8 from "./emulator";
+import type { Chip8Registers, Chip8State, MemoryWriteListener } from "./emulator";
+import type { ConditionalBreakpoint } from "./debugger";
+import type { Display } from "./display";
+import type { AudioSink } from "./audio";
+import type { Quirks } from "./quirks";
+import { applyBytes } from "./delta";
+import { DEFAULT_CYCLES_PER_FRAME } from "./scheduler";
+import type { Movie, MovieStatus } from "./movie";
+import type { Fault, FaultPolicies } from "./faults";
+import type { TraceStatus } from "./tracer";
+import type { Profile } from "./profiler";
+import type {
+    DebuggerCommand,
+    DebuggerStatus,
+    EmulatorCommand,
+    EmulatorEvent,
+    FrameEvent,
+    MessageEndpoint,
+} from "./protocol";
+
+/**
+ * Speed controls of the remote emulator, mirroring `FrameScheduler`
+ */
+export class RemoteScheduler {
+    private send: (command: EmulatorCommand) => void;
+    private paused = false;
+    private speed = 1;
+    private cyclesPerFrame = DEFAULT_CYCLES_PER_FRAME;
+
+    public constructor(send: (command: EmulatorCommand) => void) {
+        this.send = send;
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    public pause() {
+        this.paused = true;
+        this.send({ type: "pause" });
+    }
+
+    public resume() {
+        this.paused = false;
+        this.send({ type: "resume" });
+    }
+
+    /**
+     * Pauses, then emulates exactly one frame
+     */
+    public advanceFrame() {
+        this.paused = true;
+        this.send({ type: "advanceFrame" });
+    }
+
+    public getSpeed(): number {
+        return this.speed;
+    }
+
+    public setSpeed(speed: number) {
+        if (!(speed > 0)) {
+            throw Error(`Invalid speed: ${speed}`);
+        }
+
+        this.speed = speed;
+        this.send({ type: "setSpeed", speed });
+    }
+
+    public getCyclesPerFrame(): number {
+        return this.cyclesPerFrame;
+    }
+
+    public setCyclesPerFrame(cycles: number) {
+        if (!Number.isInteger(cycles) || cycles < 1) {
+            throw Error(`Invalid cycles per frame: ${cycles}`);
+        }
+
+        this.cyclesPerFrame = cycles;
+        this.send({ type: "setCyclesPerFrame", cycles });
+    }
+}
+
+/**
+ * Debugger of the remote emulator, mirroring `Debugger`.
+ *
+ * Queries answer from the status last reported by the worker, so they lag commands slightly.
+ */
+export class RemoteDebugger {
+    private send: (command: EmulatorCommand) => void;
+    private status: DebuggerStatus = {
+        paused: false,
+        pauseReason: null,
+        breakpoints: [],
+        conditions: [],
+        watchpoints: [],
+    };
+    private changeListeners: Array<() => void> = [];
+
+    public constructor(send: (command: EmulatorCommand) => void) {
+        this.send = send;
+    }
+
+    /**
+     * Replaces the mirrored status with one reported by the worker
+     */
+    public update(status: DebuggerStatus) {
+        this.status = status;
+        this.changeListeners.forEach((listener) => listener());
+    }
+
+    private command(command: DebuggerCommand) {
+        this.send({ type: "debugger", command });
+    }
+
+    /**
+     * Registers a listener for changes to the pause state or breakpoints
+     * @param listener listener to add
+     * @returns function which removes the listener
+     */
+    public onChange(listener: () => void): () => void {
+        this.changeListeners.push(listener);
+        return () => {
+            this.changeListeners = this.changeListeners.filter((other) => other !== listener);
+        };
+    }
+
+    public isPaused(): boolean {
+        return this.status.paused;
+    }
+
+    public getPauseReason(): string | null {
+        return this.status.pauseReason;
+    }
+
+    public pause() {
+        this.command({ action: "pause" });
+    }
+
+    public resume() {
+        this.command({ action: "resume" });
+    }
+
+    public stepInto() {
+        this.command({ action: "stepInto" });
+    }
+
+    public stepOver() {
+        this.command({ action: "stepOver" });
+    }
+
+    public stepOut() {
+        this.command({ action: "stepOut" });
+    }
+
+    public getBreakpoints(): number[] {
+        return this.status.breakpoints.slice();
+    }
+
+    public hasBreakpoint(pc: number): boolean {
+        return this.status.breakpoints.includes(pc);
+    }
+
+    public toggleBreakpoint(pc: number) {
+        this.command({ action: "toggleBreakpoint", pc });
+    }
+
+    public getConditions(): ConditionalBreakpoint[] {
+        return this.status.conditions.slice();
+    }
+
+    public addCondition(condition: Omit<ConditionalBreakpoint, "id">) {
+        this.command({ action: "addCondition", condition });
+    }
+
+    public removeCondition(id: number) {
+        this.command({ action: "removeCondition", id });
+    }
+
+    public getWatchpoints(): number[] {
+        return this.status.watchpoints.slice();
+    }
+
+    public toggleWatchpoint(addr: number) {
+        this.command({ action: "toggleWatchpoint", addr });
+    }
+}
+
+/**
+ * Page-side handle to a Chip8 running in a worker.
+ *
+ * The display, memory and registers are mirrored from the worker's frame events, so they
+ * can be read synchronously; commands take effect asynchronously.
+ */
+export class EmulatorClient {
+    public readonly scheduler: RemoteScheduler;
+    public readonly emuDebugger: RemoteDebugger;
+
+    private port: MessageEndpoint;
+    private display: Display;
+    private audio: AudioSink;
+
+    private memory = new Uint8Array(Chip8.MEM_SIZE);
+    private registers: Chip8Registers = {
+        pc: Chip8.START_ADDR,
+        i: 0,
+        v: new Uint8Array(16),
+        sp: 0,
+        callStack: [],
+        delayTimer: 0,
+        soundTimer: 0,
+        awaitingKey: false,
+    };
+    private romSize = 0;
+    private pressedKeys: number[] = [];
+    private movie: MovieStatus | null = null;
+    private trace: TraceStatus | null = null;
+    private rewinding = false;
+    private exited = false;
+    private fault: Fault | null = null;
+
+    private memoryWriteListeners: MemoryWriteListener[] = [];
+    private frameListeners: Array<() => void> = [];
+    private errorListeners: Array<(message: string) => void> = [];
+    private nextRequestId = 1;
+    private pendingStates = new Map<number, (state: Chip8State) => void>();
+    private pendingMovies = new Map<number, (movie: Movie | null) => void>();
+    private pendingTraces = new Map<number, (text: string) => void>();
+    private pendingProfiles = new Map<number, (profile: Profile | null) => void>();
+
+    /**
+     * @param display display to mirror the worker's display into
+     * @param audio sink to play the worker's sound through
+     * @param port channel to an emulator host
+     */
+    public constructor(display: Display, audio: AudioSink, port: MessageEndpoint) {
+        this.display = display;
+        this.audio = audio;
+        this.port = port;
+
+        const send = (command: EmulatorCommand) => this.send(command);
+        this.scheduler = new RemoteScheduler(send);
+        this.emuDebugger = new RemoteDebugger(send);
+
+        this.port.onmessage = (ev) => this.handleEvent(ev.data as EmulatorEvent);
+    }
+
+    /**
+     * Starts an emulator worker
+     * @param display display to mirror the worker's display into
+     * @param audio sink to play the worker's sound through
+     */
+    public static createWorker(display: Display, audio: AudioSink): EmulatorClient {
+        const worker = new Worker(new URL("./emulator.worker.ts", import.meta.url), { type: "module" });
+        return new EmulatorClient(display, audio, worker);
+    }
+
+    private send(command: EmulatorCommand) {
+        this.port.postMessage(command);
+    }
+
+    private handleEvent(event: EmulatorEvent) {
+        switch (event.type) {
+            case "frame":
+                this.applyFrame(event);
+                break;
+            case "soundStart":
+                this.audio.start(event.duration);
+                break;
+            case "soundStop":
+                this.audio.stop();
+                break;
+            case "audioPattern":
+                this.audio.setPattern(event.pattern, event.pitch);
+                break;
+            case "debugger":
+                this.emuDebugger.update(event.status);
+                break;
+            case "stateSaved":
+                this.pendingStates.get(event.requestId)?.(event.state);
+                this.pendingStates.delete(event.requestId);
+                break;
+            case "movieRecorded":
+                this.pendingMovies.get(event.requestId)?.(event.movie);
+                this.pendingMovies.delete(event.requestId);
+                break;
+            case "traceExported":
+                this.pendingTraces.get(event.requestId)?.(event.text);
+                this.pendingTraces.delete(event.requestId);
+                break;
+            case "profiled":
+                this.pendingProfiles.get(event.requestId)?.(event.profile);
+                this.pendingProfiles.delete(event.requestId);
+                break;
+            case "error":
+                if (this.errorListeners.length === 0) {
+                    console.error(`Emulator error: ${event.message}`);
+                }
+                this.errorListeners.forEach((listener) => listener(event.message));
+                break;
+        }
+    }
+
+    private applyFrame(event: FrameEvent) {
+        if (event.vWidth !== this.display.vWidth || event.vHeight !== this.display.vHeight) {
+            this.display.setResolution(event.vWidth, event.vHeight);
+        }
+        const pixels = applyBytes(this.display.pixels, event.pixels);
+        this.display.pixels.set(pixels);
+        if (event.pixels.indices.length > 0) {
+            this.display.invalidate();
+        }
+
+        this.memory = applyBytes(this.memory, event.memory);
+        for (let n = 0; n < event.memory.indices.length; n++) {
+            for (const listener of this.memoryWriteListeners) {
+                listener(event.memory.indices[n], event.memory.values[n]);
+            }
+        }
+
+        this.registers = event.registers;
+        this.romSize = event.romSize;
+        this.pressedKeys = event.pressedKeys;
+        this.movie = event.movie;
+        this.trace = event.trace;
+        this.rewinding = event.rewinding;
+        this.exited = event.exited;
+        this.fault = event.fault;
+
+        this.frameListeners.forEach((listener) => listener());
+    }
+
+    /**
+     * Registers a listener for error messages from the worker. Errors are logged while
+     * no listener is registered.
+     * @param listener listener to add
+     * @returns function which removes the listener
+     */
+    public onError(listener: (message: string) => void): () => void {
+        this.errorListeners.push(listener);
+        return () => {
+            this.errorListeners = this.errorListeners.filter((other) => other !== listener);
+        };
+    }
+
+    /**
+     * Registers a listener which runs after each frame event has been mirrored
+     * @param listener listener to add
+     * @returns function which removes the listener
+     */
+    public onFrame(listener: () => void): () => void {
+        this.frameListeners.push(listener);
+        return () => {
+            this.frameListeners = this.frameListeners.filter((other) => other !== listener);
+        };
+    }
+
+    /**
+     * Registers a listener which runs for every byte of memory changed since the last frame
+     * @param listener listener to add
+     * @returns function which removes the listener
+     */
+    public onMemoryWrite(listener: MemoryWriteListener): () => void {
+        this.memoryWriteListeners.push(listener);
+        return () => {
+            this.memoryWriteListeners = this.memoryWriteListeners.filter((other) => other !== listener);
+        };
+    }
+
+    public loadROM(rom: Uint8Array) {
+        this.send({ type: "loadROM", rom });
+    }
+
+    public reset() {
+        this.send({ type: "reset" });
+    }
+
+    public pressKey(key: number) {
+        this.send({ type: "pressKey", key });
+    }
+
+    public releaseKey(key: number) {
+        this.send({ type: "releaseKey", key });
+    }
+
+    public setQuirks(quirks: Quirks) {
+        this.send({ type: "setQuirks", quirks });
+    }
+
+    public setFaultPolicies(policies: Partial<FaultPolicies>) {
+        this.send({ type: "setFaultPolicies", policies });
+    }
+
+    public setRewindSeconds(seconds: number) {
+        this.send({ type: "setRewindSeconds", seconds });
+    }
+
+    public setRewinding(active: boolean) {
+        this.send({ type: "setRewinding", active });
+    }
+
+    /**
+     * Keypad keys held as of the last frame
+     */
+    public getPressedKeys(): number[] {
+        return this.pressedKeys;
+    }
+
+    public isRewinding(): boolean {
+        return this.rewinding;
+    }
+
+    public hasExited(): boolean {
+        return this.exited;
+    }
+
+    /**
+     * Fault execution halted on as of the last frame, or null if running
+     */
+    public getFault(): Fault | null {
+        return this.fault;
+    }
+
+    /**
+     * Captures the worker's complete machine state
+     */
+    public saveState(): Promise<Chip8State> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve) => {
+            this.pendingStates.set(requestId, resolve);
+            this.send({ type: "saveState", requestId });
+        });
+    }
+
+    public loadState(state: Chip8State) {
+        this.send({ type: "loadState", state });
+    }
+
+    /**
+     * Restarts the loaded ROM and records a movie of its input
+     * @param romHash hash of the loaded ROM, stored in the movie
+     */
+    public startRecording(romHash: string) {
+        this.send({ type: "startRecording", romHash });
+    }
+
+    /**
+     * Stops recording; the emulator carries on running
+     * @returns the recorded movie, or null if nothing was being recorded
+     */
+    public stopRecording(): Promise<Movie | null> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve) => {
+            this.pendingMovies.set(requestId, resolve);
+            this.send({ type: "stopRecording", requestId });
+        });
+    }
+
+    /**
+     * Restarts the loaded ROM and plays a movie on it. The ROM must be the one the movie
+     * was recorded with.
+     */
+    public playMovie(movie: Movie) {
+        this.send({ type: "playMovie", movie });
+    }
+
+    /**
+     * Ends the movie being played, or discards the one being recorded
+     */
+    public stopMovie() {
+        this.send({ type: "stopMovie" });
+    }
+
+    /**
+     * Movie being recorded or played as of the last frame, or null if none
+     */
+    public getMovieStatus(): MovieStatus | null {
+        return this.movie;
+    }
+
+    /**
+     * Starts recording a trace of every instruction executed, discarding the previous
+     * trace, or stops recording and keeps it for export. Loading a ROM or resetting
+     * restarts the trace being recorded.
+     */
+    public setTracing(enabled: boolean) {
+        this.send({ type: "setTracing", enabled });
+    }
+
+    /**
+     * Trace recorded as of the last frame, or null if tracing was never enabled
+     */
+    public getTraceStatus(): TraceStatus | null {
+        return this.trace;
+    }
+
+    /**
+     * Exports the latest trace in the format read by `parseTrace()`
+     * @returns the trace, or an empty string if tracing was never enabled
+     */
+    public exportTrace(): Promise<string> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve) => {
+            this.pendingTraces.set(requestId, resolve);
+            this.send({ type: "exportTrace", requestId });
+        });
+    }
+
+    /**
+     * Starts counting the instructions executed, per address and per subroutine, discarding
+     * the previous counts, or stops counting and keeps them. Loading a ROM or resetting
+     * restarts the count.
+     */
+    public setProfiling(enabled: boolean) {
+        this.send({ type: "setProfiling", enabled });
+    }
+
+    /**
+     * Copies the latest profile from the worker
+     * @returns the profile, or null if profiling was never enabled
+     */
+    public getProfile(): Promise<Profile | null> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve) => {
+            this.pendingProfiles.set(requestId, resolve);
+            this.send({ type: "getProfile", requestId });
+        });
+    }
+
+    /**
+     * Registers as of the last frame
+     */
+    public inspect(): Chip8Registers {
+        return this.registers;
+    }
+
+    public getROMSize(): number {
+        return this.romSize;
+    }
+
+    /**
+     * Copies a range of mirrored memory
+     * @param addr first address to read
+     * @param length number of bytes to read; clamped to the end of memory
+     */
+    public readMemory(addr: number, length: number): Uint8Array {
+        if (!Number.isInteger(addr) || addr < 0) {
+            throw Error(`Invalid memory address: ${addr}`);
+        }
+
+        return this.memory.slice(addr, addr + length);
+    }
+
+    /**
+     * Overwrites a range of memory in the worker. The mirror follows with the next frame,
+     * so a write the worker rejects, such as during a movie, doesn't leave it stale.
+     * @param addr first address to write
+     * @param bytes bytes to write
+     */
+    public pokeMemory(addr: number, bytes: ArrayLike<number>) {
+        if (!Number.isInteger(addr) || addr < 0 || addr + bytes.length > this.memory.length) {
+            throw Error(`Memory write of ${bytes.length} bytes at ${addr} is out of range`);
+        }
+        for (let offset = 0; offset < bytes.length; offset++) {
+            const value = bytes[offset];
+            if (!Number.isInteger(value) || value < 0 || value > 0xFF) {
+                throw Error(`Invalid byte value: ${value}`);
+            }
+        }
+
+        this.send({ type: "pokeMemory", addr, bytes: Uint8Array.from(bytes) });
+    }
+}
@@ -0,0 +1,426 @@
+import Chip8 from "./emulator";
+import Debugger from "./debugger";
+import { FramebufferDisplay } from "./display";
+import { diffBytes } from "./delta";
+import { TIMER_HZ } from "./clock";
+import { FrameScheduler, type FrameSource } from "./scheduler";
+import { MoviePlayer, MovieRecorder, startMovie, type Movie, type MovieStatus } from "./movie";
+import { randomSeed } from "./random";
+import { Tracer, exportTrace } from "./tracer";
+import { Profiler } from "./profiler";
+import type { AudioSink } from "./audio";
+import type { Quirks } from "./quirks";
+import type {
+    DebuggerCommand,
+    DebuggerStatus,
+    EmulatorCommand,
+    EmulatorEvent,
+    FrameEvent,
+    MessageEndpoint,
+} from "./protocol";
+
+/** Frame source backed by `setTimeout`, since workers cannot rely on animation frames */
+const TIMEOUT_FRAMES: FrameSource = {
+    request: (callback) => setTimeout(() => callback(performance.now()), 1000 / TIMER_HZ) as unknown as number,
+    cancel: (handle) => clearTimeout(handle),
+    now: () => performance.now(),
+};
+
+/**
+ * Audio sink which forwards sound to the page
+ */
+class MessageAudioSink implements AudioSink {
+    private post: (event: EmulatorEvent) => void;
+
+    public constructor(post: (event: EmulatorEvent) => void) {
+        this.post = post;
+    }
+
+    public start(duration: number) {
+        this.post({ type: "soundStart", duration });
+    }
+
+    public stop() {
+        this.post({ type: "soundStop" });
+    }
+
+    public setPattern(pattern: Uint8Array | null, pitch: number) {
+        this.post({ type: "audioPattern", pattern: pattern?.slice() ?? null, pitch });
+    }
+}
+
+/**
+ * @param key keypad key, from 0x0 to 0xF
+ * @returns bit of the key in a key state mask
+ */
+function keyBit(key: number): number {
+    if (!Number.isInteger(key) || key < 0 || key > 0xF) {
+        throw Error(`Invalid keypad key: ${key}`);
+    }
+    return 1 << key;
+}
+
+/**
+ * Runs a Chip8 on behalf of an `EmulatorClient` at the other end of a message channel.
+ *
+ * After every refresh of the frame source, the host posts a frame event holding whatever
+ * changed in the display and memory since the previous one.
+ *
+ * Key presses are applied at the start of the next frame rather than as they arrive, so
+ * a run depends only on the keys held in each frame and can be recorded as a movie.
+ * @param port channel to the client
+ * @param frames source of refreshes pacing emulation
+ * @returns function which stops the emulator
+ */
+export function hostEmulator(port: MessageEndpoint, frames: FrameSource = TIMEOUT_FRAMES): () => void {
+    const post = (event: EmulatorEvent, transfer: Transferable[] = []) => port.postMessage(event, transfer);
+
+    const display = new FramebufferDisplay();
+    const chip8 = new Chip8(display, { audio: new MessageAudioSink(post) });
+    const emuDebugger = new Debugger(chip8);
+
+    /** Keys held on the page, as a bit mask applied at the start of each frame */
+    let heldKeys = 0;
+    /** ROM last loaded, which movies restart */
+    let loadedROM: Uint8Array | null = null;
+    let recorder: MovieRecorder | null = null;
+    let player: MoviePlayer | null = null;
+    /** Settings to restore once the movie being played ends */
+    let settingsBeforeMovie: { quirks: Quirks; cyclesPerFrame: number } | null = null;
+    /** Tracer of the latest trace, which is detached once tracing stops */
+    let tracer: Tracer | null = null;
+    let tracing = false;
+    /** Profiler of the latest profile, which is detached once profiling stops */
+    let profiler: Profiler | null = null;
+    let profiling = false;
+
+    // Contents as of the last frame event, which the client mirrors
+    let sentPixels = new Uint8Array(0);
+    let sentMemory = new Uint8Array(Chip8.MEM_SIZE);
+
+    function publishFrame() {
+        const memory = chip8.readMemory(0, Chip8.MEM_SIZE);
+        const pixels = display.pixels.slice();
+        const event: FrameEvent = {
+            type: "frame",
+            vWidth: display.vWidth,
+            vHeight: display.vHeight,
+            pixels: diffBytes(sentPixels, pixels),
+            memory: diffBytes(sentMemory, memory),
+            registers: chip8.inspect(),
+            romSize: chip8.getROMSize(),
+            pressedKeys: chip8.getPressedKeys(),
+            movie: movieStatus(),
+            trace: tracer ? { recording: tracing, length: tracer.length, dropped: tracer.getDropped() } : null,
+            rewinding: chip8.isRewinding(),
+            exited: chip8.hasExited(),
+            fault: chip8.getFault(),
+        };
+        sentPixels = pixels;
+        sentMemory = memory;
+
+        const buffers = [event.pixels.indices, event.pixels.values, event.memory.indices, event.memory.values];
+        post(event, buffers.map((buffer) => buffer.buffer));
+    }
+
+    function publishDebugger() {
+        const status: DebuggerStatus = {
+            paused: emuDebugger.isPaused(),
+            pauseReason: emuDebugger.getPauseReason(),
+            breakpoints: emuDebugger.getBreakpoints(),
+            conditions: emuDebugger.getConditions(),
+            watchpoints: emuDebugger.getWatchpoints(),
+        };
+        post({ type: "debugger", status });
+    }
+
+    // Publish after every refresh, whether or not the scheduler emulated anything
+    const publishingFrames: FrameSource = {
+        request: (callback) => frames.request((time) => {
+            callback(time);
+            publishFrame();
+        }),
+        cancel: (handle) => frames.cancel(handle),
+        now: () => frames.now(),
+    };
+    const scheduler = new FrameScheduler(chip8, publishingFrames);
+
+    function movieStatus(): MovieStatus | null {
+        if (recorder) {
+            return { mode: "recording", frame: recorder.length, length: recorder.length };
+        }
+        if (player) {
+            return { mode: "playing", frame: player.frame, length: player.movie.frames.length };
+        }
+        return null;
+    }
+
+    function applyFrameInput() {
+        // Frames begun while the debugger holds execution run no instructions, so they are left out of movies
+        if ((recorder || player) && emuDebugger.isPaused()) {
+            return;
+        }
+
+        if (player) {
+            const keys = player.next();
+            if (keys !== null) {
+                chip8.setKeyState(keys);
+                return;
+            }
+            stopMovie();
+        }
+
+        chip8.setKeyState(heldKeys);
+        recorder?.record(heldKeys);
+    }
+
+    function checkNoMovie() {
+        if (recorder || player) {
+            throw Error("Stop the movie first");
+        }
+    }
+
+    /**
+     * Ends the movie being played, restoring the settings it replaced, or discards the one being recorded
+     */
+    function stopMovie() {
+        if (player && settingsBeforeMovie) {
+            chip8.setQuirks(settingsBeforeMovie.quirks);
+            scheduler.setCyclesPerFrame(settingsBeforeMovie.cyclesPerFrame);
+        }
+        player = null;
+        recorder = null;
+        settingsBeforeMovie = null;
+    }
+
+    function startRecording(romHash: string) {
+        if (!loadedROM) {
+            throw Error("Load a ROM before recording a movie");
+        }
+
+        stopMovie();
+        const settings = {
+            romHash,
+            quirks: chip8.getQuirks(),
+            cyclesPerFrame: scheduler.getCyclesPerFrame(),
+            seed: randomSeed(),
+        };
+        chip8.setRewinding(false);
+        startMovie(chip8, loadedROM, settings);
+        recorder = new MovieRecorder(settings);
+    }
+
+    function playMovie(movie: Movie) {
+        if (!loadedROM) {
+            throw Error("Load the movie's ROM before playing it");
+        }
+
+        const moviePlayer = new MoviePlayer(movie);
+        stopMovie();
+        const settings = { quirks: chip8.getQuirks(), cyclesPerFrame: scheduler.getCyclesPerFrame() };
+        scheduler.setCyclesPerFrame(movie.cyclesPerFrame);
+        settingsBeforeMovie = settings;
+        chip8.setRewinding(false);
+        startMovie(chip8, loadedROM, movie);
+        player = moviePlayer;
+    }
+
+    function setTracing(enabled: boolean) {
+        if (enabled === tracing) {
+            return;
+        }
+
+        if (enabled) {
+            tracer?.detach();
+            tracer = new Tracer(chip8);
+        } else {
+            tracer?.detach();
+        }
+        tracing = enabled;
+    }
+
+    function setProfiling(enabled: boolean) {
+        if (enabled === profiling) {
+            return;
+        }
+
+        if (enabled) {
+            profiler?.detach();
+            profiler = new Profiler(chip8);
+        } else {
+            profiler?.detach();
+        }
+        profiling = enabled;
+    }
+
+    function runDebuggerCommand(command: DebuggerCommand) {
+        switch (command.action) {
+            case "pause":
+                emuDebugger.pause();
+                break;
+            case "resume":
+                emuDebugger.resume();
+                break;
+            case "stepInto":
+                emuDebugger.stepInto();
+                break;
+            case "stepOver":
+                emuDebugger.stepOver();
+                break;
+            case "stepOut":
+                emuDebugger.stepOut();
+                break;
+            case "toggleBreakpoint":
+                emuDebugger.toggleBreakpoint(command.pc);
+                break;
+            case "addCondition":
+                emuDebugger.addCondition(command.condition);
+                break;
+            case "removeCondition":
+                emuDebugger.removeCondition(command.id);
+                break;
+            case "toggleWatchpoint":
+                emuDebugger.toggleWatchpoint(command.addr);
+                break;
+        }
+    }
+
+    function runCommand(command: EmulatorCommand) {
+        switch (command.type) {
+            case "loadROM":
+                stopMovie();
+                chip8.loadROM(command.rom);
+                loadedROM = command.rom.slice();
+                // Traces start from power-on, to line up with traces from other emulators
+                if (tracing) {
+                    tracer?.clear();
+                }
+                if (profiling) {
+                    profiler?.clear();
+                }
+                break;
+            case "reset":
+                stopMovie();
+                chip8.reset();
+                if (tracing) {
+                    tracer?.clear();
+                }
+                if (profiling) {
+                    profiler?.clear();
+                }
+                break;
+            case "pressKey":
+                heldKeys |= keyBit(command.key);
+                break;
+            case "releaseKey":
+                heldKeys &= ~keyBit(command.key);
+                break;
+            case "setQuirks":
+                if (player && settingsBeforeMovie) {
+                    settingsBeforeMovie.quirks = { ...command.quirks };
+                    break;
+                }
+                checkNoMovie();
+                chip8.setQuirks(command.quirks);
+                break;
+            case "setFaultPolicies":
+                chip8.setFaultPolicies(command.policies);
+                break;
+            case "setRewindSeconds":
+                chip8.setRewindSeconds(command.seconds);
+                break;
+            case "setRewinding":
+                if (command.active) {
+                    checkNoMovie();
+                }
+                chip8.setRewinding(command.active);
+                break;
+            case "pause":
+                scheduler.pause();
+                break;
+            case "resume":
+                scheduler.resume();
+                break;
+            case "advanceFrame":
+                scheduler.advanceFrame();
+                break;
+            case "setSpeed":
+                scheduler.setSpeed(command.speed);
+                break;
+            case "setCyclesPerFrame":
+                if (player && settingsBeforeMovie) {
+                    settingsBeforeMovie.cyclesPerFrame = command.cycles;
+                    break;
+                }
+                checkNoMovie();
+                scheduler.setCyclesPerFrame(command.cycles);
+                break;
+            case "saveState":
+                post({ type: "stateSaved", requestId: command.requestId, state: chip8.saveState() });
+                break;
+            case "loadState":
+                checkNoMovie();
+                chip8.loadState(command.state);
+                break;
+            case "pokeMemory":
+                checkNoMovie();
+                chip8.pokeMemory(command.addr, command.bytes);
+                break;
+            case "startRecording":
+                startRecording(command.romHash);
+                break;
+            case "stopRecording":
+                post({ type: "movieRecorded", requestId: command.requestId, movie: recorder?.finish() ?? null });
+                recorder = null;
+                break;
+            case "playMovie":
+                playMovie(command.movie);
+                break;
+            case "stopMovie":
+                stopMovie();
+                break;
+            case "setTracing":
+                setTracing(command.enabled);
+                break;
+            case "exportTrace": {
+                const text = tracer ? exportTrace(tracer.getEntries(), tracer.getDropped()) : "";
+                post({ type: "traceExported", requestId: command.requestId, text });
+                break;
+            }
+            case "setProfiling":
+                setProfiling(command.enabled);
+                break;
+            case "getProfile": {
+                const profile = profiler?.getProfile() ?? null;
+                post({ type: "profiled", requestId: command.requestId, profile }, profile ? [profile.counts.buffer] : []);
+                break;
+            }
+            case "debugger":
+                runDebuggerCommand(command.command);
+                break;
+        }
+    }
+
+    emuDebugger.onChange(publishDebugger);
+    const removeFrameListener = chip8.onBeforeFrame(applyFrameInput);
+    port.onmessage = (ev) => {
+        try {
+            runCommand(ev.data as EmulatorCommand);
+        } catch (reason) {
+            post({ type: "error", message: `${reason}` });
+        }
+    };
+
+    publishDebugger();
+    scheduler.start();
+
+    return () => {
+        scheduler.stop();
+        chip8.shutdown();
+        emuDebugger.detach();
+        tracer?.detach();
+        profiler?.detach();
+        removeFrameListener();
+        port.onmessage = null;
+    };
+}
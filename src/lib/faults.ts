@@ -0,0 +1,80 @@
+import { hex } from "./debugger";
+
+/**
+ * Errors a program can make which the interpreter detects
+ */
+export type FaultType = "stackOverflow" | "stackUnderflow" | "memoryOutOfBounds" | "pcOutOfBounds" | "invalidOpcode";
+
+/**
+ * What the interpreter does about a fault: stop executing, log it and carry on, or just carry on.
+ *
+ * Carrying on skips whatever the faulting instruction can't do: a call past the top of the stack
+ * jumps without saving its return address, a return with an empty stack does nothing,
+ * out-of-bounds writes are dropped and reads give 0, PC past the end of memory restarts from
+ * the program start location, and invalid opcodes are skipped.
+ */
+export type FaultPolicy = "halt" | "warn" | "ignore";
+
+export type FaultPolicies = Record<FaultType, FaultPolicy>;
+
+/**
+ * A fault raised by an instruction
+ */
+export interface Fault {
+    type: FaultType;
+    /** Address of the faulting instruction */
+    pc: number;
+    /** Faulting instruction, or null if PC was past the end of memory */
+    opcode: number | null;
+    /** Memory address accessed out of bounds, or null for other faults */
+    addr: number | null;
+}
+
+export const FAULT_TYPES: ReadonlyArray<FaultType> = [
+    "stackOverflow",
+    "stackUnderflow",
+    "memoryOutOfBounds",
+    "pcOutOfBounds",
+    "invalidOpcode",
+];
+
+/** Human-readable names of each fault */
+export const FAULT_NAMES: Record<FaultType, string> = {
+    stackOverflow: "Stack overflow",
+    stackUnderflow: "Stack underflow",
+    memoryOutOfBounds: "Memory access out of bounds",
+    pcOutOfBounds: "PC past the end of memory",
+    invalidOpcode: "Invalid opcode",
+};
+
+/** Human-readable names of each policy */
+export const FAULT_POLICY_NAMES: Record<FaultPolicy, string> = {
+    halt: "Halt",
+    warn: "Warn",
+    ignore: "Ignore",
+};
+
+/**
+ * Halts on faults which leave the program lost, and warns about those it may survive
+ */
+export const DEFAULT_FAULT_POLICIES: Readonly<FaultPolicies> = {
+    stackOverflow: "halt",
+    stackUnderflow: "halt",
+    memoryOutOfBounds: "warn",
+    pcOutOfBounds: "halt",
+    invalidOpcode: "halt",
+};
+
+/**
+ * Describes a fault for display, e.g. `Stack overflow at 0x2F4 (2300)`
+ */
+export function describeFault(fault: Fault): string {
+    let description = `${FAULT_NAMES[fault.type]} at ${hex(fault.pc)}`;
+    if (fault.opcode !== null) {
+        description += ` (${hex(fault.opcode, 4, false)})`;
+    }
+    if (fault.addr !== null) {
+        description += `: address ${hex(fault.addr, 4)}`;
+    }
+    return description;
+}
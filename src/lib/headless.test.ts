@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { keyStates, parseKeyScript, runHeadless } from './headless';
+import { load, rom } from './test_helpers';
+
+describe('key scripts', () => {
+	it('parses frames and held keys, skipping comments and blank lines', () => {
+		const script = '# start\n3 5 a\n\n10 F # fire\n12\n';
+
+		expect(parseKeyScript(script)).toEqual([
+			{ frame: 3, keys: (1 << 0x5) | (1 << 0xa) },
+			{ frame: 10, keys: 1 << 0xf },
+			{ frame: 12, keys: 0 }
+		]);
+	});
+
+	it('rejects invalid lines', () => {
+		expect(() => parseKeyScript('x 5')).toThrowError(/Line 1.*frame/);
+		expect(() => parseKeyScript('1 5\n2 G')).toThrowError(/Line 2.*key/);
+		expect(() => parseKeyScript('4 5\n4 6')).toThrowError(/not after/);
+	});
+
+	it('holds each state until the next change', () => {
+		const changes = parseKeyScript('1 1\n3 2\n4');
+
+		expect(keyStates(changes, 6)).toEqual([0, 2, 2, 4, 0, 0]);
+	});
+});
+
+describe('headless runs', () => {
+	it('runs for the requested number of frames', () => {
+		// V0 += 1; jump back
+		const chip8 = load(rom(0x7001, 0x1200));
+
+		expect(runHeadless(chip8, { frames: 3, cyclesPerFrame: 10 })).toEqual({ reason: 'frames', frames: 3 });
+		expect(chip8.inspect().v[0]).toBe(15);
+	});
+
+	it('stops before the requested address', () => {
+		const chip8 = load(rom(0x6001, 0x6102, 0x6203, 0x1206));
+		const executed: number[] = [];
+
+		const result = runHeadless(chip8, { frames: 10, cyclesPerFrame: 10, untilPC: 0x204, onStep: (pc) => executed.push(pc) });
+
+		expect(result).toEqual({ reason: 'pc', frames: 1 });
+		expect(chip8.inspect().pc).toBe(0x204);
+		expect(chip8.inspect().v[2]).toBe(0);
+		expect(executed).toEqual([0x200, 0x202]);
+	});
+
+	it('stops at a jump to itself only when asked', () => {
+		const program = rom(0x6001, 0x1202);
+
+		expect(runHeadless(load(program), { frames: 5, cyclesPerFrame: 10, untilLoop: true })).toEqual({ reason: 'loop', frames: 1 });
+		expect(runHeadless(load(program), { frames: 5, cyclesPerFrame: 10 }).reason).toBe('frames');
+	});
+
+	it('stops when the program exits or halts on a fault', () => {
+		expect(runHeadless(load(rom(0x00fd)), { frames: 5, cyclesPerFrame: 10 })).toEqual({ reason: 'exited', frames: 1 });
+		expect(runHeadless(load(rom(0x00ee)), { frames: 5, cyclesPerFrame: 10 })).toEqual({ reason: 'fault', frames: 1 });
+	});
+
+	it('applies the keys of each frame at its start', () => {
+		// V0 = 5; skip the jump while key 5 is held; exit
+		const chip8 = load(rom(0x6005, 0xe09e, 0x1202, 0x00fd));
+
+		const result = runHeadless(chip8, { frames: 10, cyclesPerFrame: 4, keys: keyStates(parseKeyScript('3 5'), 10) });
+
+		expect(result).toEqual({ reason: 'exited', frames: 4 });
+	});
+});
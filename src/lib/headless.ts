@@ -0,0 +1,160 @@
+import type Chip8 from "./emulator";
+
+/**
+ * Keypad state from one frame onwards, until the next change
+ */
+export interface KeyChange {
+    frame: number;
+    /** Bit mask with bit N set while key N is held */
+    keys: number;
+}
+
+/**
+ * Why a headless run stopped
+ */
+export type StopReason = "frames" | "pc" | "loop" | "exited" | "fault";
+
+/** Human-readable descriptions of each stop reason */
+export const STOP_REASON_NAMES: Record<StopReason, string> = {
+    frames: "Ran for the requested number of frames",
+    pc: "Reached the requested address",
+    loop: "Stopped at a jump to itself",
+    exited: "Exited through 00FD",
+    fault: "Halted on a fault",
+};
+
+export interface HeadlessOptions {
+    /** Maximum number of frames to run */
+    frames: number;
+    cyclesPerFrame: number;
+    /** Stops before executing the instruction at this address */
+    untilPC?: number;
+    /** Stops at a jump to itself, the usual way for a program to end */
+    untilLoop?: boolean;
+    /** Keypad state of each frame; see `keyStates()` */
+    keys?: ArrayLike<number>;
+    /** Called before each instruction that executes, such as to trace them */
+    onStep?: (pc: number, opcode: number) => void;
+}
+
+export interface HeadlessResult {
+    reason: StopReason;
+    /** Frames run, including the one the run stopped in */
+    frames: number;
+}
+
+/**
+ * Parses a key script: one line per change of keypad state, giving the frame the change
+ * happens on followed by the keys held from then on, as hex digits. A frame with no keys
+ * releases them all. `#` starts a comment.
+ *
+ * ```
+ * # Hold 5 from frame 30, then 5 and A, then nothing
+ * 30 5
+ * 45 5 A
+ * 60
+ * ```
+ * @param text script to parse
+ * @returns changes of keypad state, in frame order
+ */
+export function parseKeyScript(text: string): KeyChange[] {
+    const changes: KeyChange[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        const fields = line.replace(/#.*/, "").trim().split(/\s+/).filter((field) => field !== "");
+        if (fields.length === 0) {
+            return;
+        }
+
+        const [frameField, ...keyFields] = fields;
+        if (!/^\d+$/.test(frameField)) {
+            throw Error(`Line ${index + 1}: invalid frame number: ${frameField}`);
+        }
+
+        const frame = parseInt(frameField, 10);
+        const previous = changes[changes.length - 1];
+        if (previous && frame <= previous.frame) {
+            throw Error(`Line ${index + 1}: frame ${frame} is not after frame ${previous.frame}`);
+        }
+
+        let keys = 0;
+        for (const key of keyFields) {
+            if (!/^[0-9a-f]$/i.test(key)) {
+                throw Error(`Line ${index + 1}: invalid key: ${key}`);
+            }
+            keys |= 1 << parseInt(key, 16);
+        }
+
+        changes.push({ frame, keys });
+    });
+
+    return changes;
+}
+
+/**
+ * Expands changes of keypad state into the state of every frame
+ * @param changes changes in frame order, as produced by `parseKeyScript()`
+ * @param frameCount number of frames to produce
+ * @returns bit mask of held keys for each frame
+ */
+export function keyStates(changes: KeyChange[], frameCount: number): number[] {
+    const states: number[] = [];
+    let next = 0;
+    let keys = 0;
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        while (next < changes.length && changes[next].frame <= frame) {
+            keys = changes[next].keys;
+            next++;
+        }
+        states.push(keys);
+    }
+
+    return states;
+}
+
+/**
+ * Runs an emulator without a display loop until it stops or runs out of frames.
+ *
+ * Keys are applied at the start of each frame, as in a movie, so a run with the same ROM,
+ * quirks, seed and keys always ends the same way.
+ * @param chip8 emulator with a ROM loaded
+ * @param options when to stop, and the input to give
+ */
+export function runHeadless(chip8: Chip8, options: HeadlessOptions): HeadlessResult {
+    let reason: StopReason | null = null;
+
+    const removeStepListener = chip8.onBeforeStep((pc, opcode) => {
+        if (reason === null && pc === options.untilPC) {
+            reason = "pc";
+        } else if (reason === null && options.untilLoop && opcode === (0x1000 | pc)) {
+            reason = "loop";
+        }
+
+        if (reason !== null) {
+            // Veto every instruction left in the frame once stopped
+            return false;
+        }
+
+        options.onStep?.(pc, opcode);
+    });
+
+    let frames = 0;
+    try {
+        while (reason === null && frames < options.frames) {
+            chip8.setKeyState(options.keys?.[frames] ?? 0);
+            chip8.runFrame(options.cyclesPerFrame);
+            frames++;
+
+            if (chip8.getFault()) {
+                reason = "fault";
+            } else if (chip8.hasExited()) {
+                reason = "exited";
+            }
+        }
+    } finally {
+        removeStepListener();
+    }
+
+    return { reason: reason ?? "frames", frames };
+}
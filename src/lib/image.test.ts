@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync, inflateSync } from 'zlib';
+import { FramebufferDisplay } from './display';
+import { encodePBM, encodePNG } from './image';
+import { BUILTIN_PALETTES } from './palettes';
+
+function display(): FramebufferDisplay {
+	const display = new FramebufferDisplay(4, 2);
+	display.pixels.set([0, 1, 2, 3, 1, 0, 0, 0]);
+	return display;
+}
+
+/**
+ * Splits a PNG file into its chunks
+ */
+function chunks(png: Uint8Array): Map<string, Uint8Array> {
+	const view = new DataView(png.buffer, png.byteOffset);
+	const found = new Map<string, Uint8Array>();
+	for (let offset = 8; offset < png.length; ) {
+		const length = view.getUint32(offset);
+		const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+		found.set(type, png.subarray(offset + 8, offset + 8 + length));
+		offset += 12 + length;
+	}
+	return found;
+}
+
+describe('PBM images', () => {
+	it('writes lit pixels on any plane as 1', () => {
+		expect(encodePBM(display())).toBe('P1\n4 2\n0 1 1 1\n1 0 0 0\n');
+	});
+});
+
+describe('PNG images', () => {
+	const classic = BUILTIN_PALETTES[0];
+
+	it('writes indexed pixels with the palette colours', () => {
+		const png = encodePNG(display(), classic, (data) => deflateSync(data));
+		const found = chunks(png);
+
+		expect(Array.from(png.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+		expect(Array.from(found.get('IHDR') ?? [])).toEqual([0, 0, 0, 4, 0, 0, 0, 2, 8, 3, 0, 0, 0]);
+		expect(Array.from(found.get('PLTE') ?? []).slice(0, 6)).toEqual([0, 0, 0, 255, 255, 255]);
+		expect(Array.from(inflateSync(found.get('IDAT') ?? new Uint8Array()))).toEqual([0, 0, 1, 2, 3, 0, 1, 0, 0, 0]);
+		expect(found.has('IEND')).toBe(true);
+	});
+
+	it('scales each pixel up', () => {
+		const found = chunks(encodePNG(display(), classic, (data) => deflateSync(data), 2));
+		const rows = Array.from(inflateSync(found.get('IDAT') ?? new Uint8Array()));
+
+		expect(rows).toHaveLength(4 * 9);
+		expect(rows.slice(0, 9)).toEqual([0, 0, 0, 1, 1, 2, 2, 3, 3]);
+		expect(rows.slice(27)).toEqual([0, 1, 1, 0, 0, 0, 0, 0, 0]);
+	});
+
+	it('ends each chunk with the CRC of its type and data', () => {
+		const png = encodePNG(display(), classic, (data) => deflateSync(data));
+
+		// Known CRC of an IEND chunk, which never has data
+		expect(Array.from(png.subarray(png.length - 4))).toEqual([0xae, 0x42, 0x60, 0x82]);
+	});
+});
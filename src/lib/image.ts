@@ -0,0 +1,119 @@
+import type { FramebufferDisplay } from "./display";
+import { parseHexColor, type Palette } from "./palettes";
+
+/** Signature at the start of every PNG file */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+/** PNG colour type for 8-bit indexed colour */
+const PNG_INDEXED = 3;
+
+/**
+ * Compresses data in the zlib format, such as with Node's `zlib.deflateSync()`
+ */
+export type Deflate = (data: Uint8Array) => Uint8Array;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let bit = 0; bit < 8; bit++) {
+                c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (const byte of bytes) {
+        crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Builds a PNG chunk: length, type, data and CRC of the type and data
+ */
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let n = 0; n < 4; n++) {
+        chunk[4 + n] = type.charCodeAt(n);
+    }
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+}
+
+/**
+ * Encodes the display as a PNG image, with each VPixel drawn in its palette colour
+ * @param display display to encode
+ * @param palette colours of the display
+ * @param deflate zlib compressor for the image data
+ * @param scale size of each VPixel in image pixels
+ */
+export function encodePNG(display: FramebufferDisplay, palette: Palette, deflate: Deflate, scale = 1): Uint8Array {
+    if (!Number.isInteger(scale) || scale < 1) {
+        throw Error(`Invalid image scale: ${scale}`);
+    }
+
+    const width = display.vWidth * scale;
+    const height = display.vHeight * scale;
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = 8;
+    header[9] = PNG_INDEXED;
+
+    const colors = new Uint8Array(palette.colors.length * 3);
+    palette.colors.forEach((color, index) => {
+        const rgb = parseHexColor(color);
+        for (let n = 0; n < 3; n++) {
+            colors[(index * 3) + n] = Math.round(rgb[n] * 255);
+        }
+    });
+
+    // Each row starts with a filter type byte of 0, for no filtering
+    const rowLength = width + 1;
+    const image = new Uint8Array(rowLength * height);
+    for (let y = 0; y < height; y++) {
+        const vRow = Math.floor(y / scale) * display.vWidth;
+        for (let x = 0; x < width; x++) {
+            image[(y * rowLength) + 1 + x] = display.pixels[vRow + Math.floor(x / scale)];
+        }
+    }
+
+    const chunks = [
+        Uint8Array.from(PNG_SIGNATURE),
+        pngChunk("IHDR", header),
+        pngChunk("PLTE", colors),
+        pngChunk("IDAT", deflate(image)),
+        pngChunk("IEND", new Uint8Array(0)),
+    ];
+
+    const png = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        png.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return png;
+}
+
+/**
+ * Encodes the display as a plain (P1) PBM image, with a 1 for each VPixel lit on any plane
+ * @param display display to encode
+ */
+export function encodePBM(display: FramebufferDisplay): string {
+    let text = `P1\n${display.vWidth} ${display.vHeight}\n`;
+    for (let y = 0; y < display.vHeight; y++) {
+        const row = display.pixels.subarray(y * display.vWidth, (y + 1) * display.vWidth);
+        text += Array.from(row, (pixel) => (pixel === 0 ? "0" : "1")).join(" ") + "\n";
+    }
+    return text;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+	InputMapper,
+	LAYOUT_PRESETS,
+	GAMEPAD_BUTTONS,
+	bindKeyboard,
+	defaultBindings,
+	keyboardBindingsFor,
+	unbindKey,
+} from './input';
+
+/** Records keypad presses and releases in order */
+function recorder() {
+	const events: string[] = [];
+	const mapper = new InputMapper(
+		(key) => events.push(`+${key.toString(16)}`),
+		(key) => events.push(`-${key.toString(16)}`),
+	);
+	return { events, mapper };
+}
+
+function fakeGamepad(index: number, pressed: number[], axes = [0, 0]): Gamepad {
+	const buttons = Array.from({ length: 17 }, (_, n) => ({ pressed: pressed.includes(n), touched: false, value: 0 }));
+	return { index, buttons, axes } as unknown as Gamepad;
+}
+
+describe('InputMapper', () => {
+	it('maps the QWERTY grid and arrow keys by default', () => {
+		const { events, mapper } = recorder();
+
+		expect(mapper.handleKeyDown('KeyV')).toBe(true);
+		expect(mapper.handleKeyDown('ArrowUp')).toBe(true);
+		expect(mapper.handleKeyDown('KeyP')).toBe(false);
+		mapper.handleKeyUp('KeyV');
+
+		expect(events).toEqual(['+f', '+5', '-f']);
+	});
+
+	it('holds a key until every input bound to it is released', () => {
+		const { events, mapper } = recorder();
+
+		mapper.handleKeyDown('KeyW');
+		mapper.handleKeyDown('ArrowUp');
+		mapper.handleKeyDown('KeyW');
+		mapper.handleKeyUp('KeyW');
+		expect(events).toEqual(['+5']);
+
+		mapper.handleKeyUp('ArrowUp');
+		expect(events).toEqual(['+5', '-5']);
+	});
+
+	it('presses keys for held gamepad buttons and the left stick', () => {
+		const { events, mapper } = recorder();
+
+		mapper.pollGamepads([fakeGamepad(0, [GAMEPAD_BUTTONS.A], [-1, 0])]);
+		mapper.pollGamepads([fakeGamepad(0, [GAMEPAD_BUTTONS.A], [-1, 0])]);
+		expect(events).toEqual(['+6', '+7']);
+
+		mapper.pollGamepads([null]);
+		expect(events).toEqual(['+6', '+7', '-6', '-7']);
+	});
+
+	it('moves a pointer between keys and lists held keys', () => {
+		const { events, mapper } = recorder();
+
+		mapper.handlePointerDown(1, 0x1);
+		mapper.handlePointerDown(1, 0x2);
+		mapper.handlePointerDown(2, 0x2);
+		expect(mapper.getHeldKeys()).toEqual([0x2]);
+
+		mapper.handlePointerUp(1);
+		mapper.handlePointerUp(2);
+		expect(events).toEqual(['+1', '-1', '+2', '-2']);
+		expect(mapper.getHeldKeys()).toEqual([]);
+	});
+
+	it('releases held keys when the bindings change', () => {
+		const { events, mapper } = recorder();
+
+		mapper.handleKeyDown('KeyX');
+		mapper.setBindings({ ...defaultBindings(), keyboard: { ...LAYOUT_PRESETS[2].keyboard } });
+		expect(events).toEqual(['+0', '-0']);
+		expect(mapper.handleKeyDown('KeyX')).toBe(false);
+		expect(mapper.handleKeyDown('Numpad0')).toBe(true);
+	});
+});
+
+describe('key bindings', () => {
+	it('rebinds and unbinds keys without changing the original', () => {
+		const bindings = defaultBindings();
+		const rebound = bindKeyboard(bindings, 'Space', 0x6);
+
+		expect(keyboardBindingsFor(rebound, 0x6)).toEqual(['KeyE', 'Space']);
+		expect(keyboardBindingsFor(bindings, 0x6)).toEqual(['KeyE']);
+		expect(keyboardBindingsFor(unbindKey(rebound, 0x6), 0x6)).toEqual([]);
+		expect(() => bindKeyboard(bindings, 'Space', 0x10)).toThrow();
+	});
+});
@@ -0,0 +1,377 @@
+/** Number of keys on the hex keypad */
+export const KEYPAD_SIZE = 16;
+
+/** Hex keypad keys in the order they are laid out on the COSMAC VIP */
+export const KEYPAD_LAYOUT: ReadonlyArray<number> = [
+    0x1, 0x2, 0x3, 0xC,
+    0x4, 0x5, 0x6, 0xD,
+    0x7, 0x8, 0x9, 0xE,
+    0xA, 0x0, 0xB, 0xF,
+];
+
+/**
+ * Which inputs press which hex keypad keys. Several inputs may press the same key.
+ */
+export interface KeyBindings {
+    /** Keypad key by `KeyboardEvent.code` */
+    keyboard: Record<string, number>;
+    /** Keypad key by standard gamepad button index */
+    gamepad: Record<number, number>;
+}
+
+/**
+ * Named keyboard layout for the hex keypad
+ */
+export interface LayoutPreset {
+    name: string;
+    keyboard: Record<string, number>;
+    /** Printed labels of keys whose label differs from their code */
+    labels?: Record<string, string>;
+}
+
+/**
+ * Binds the arrow keys to the keys most ROMs use for directions, mirroring WASD on the QWERTY grid
+ */
+const ARROW_KEYS: Record<string, number> = {
+    ArrowUp: 0x5,
+    ArrowLeft: 0x7,
+    ArrowDown: 0x8,
+    ArrowRight: 0x9,
+};
+
+/**
+ * Builds a layout from four rows of key codes, placed over `KEYPAD_LAYOUT`
+ */
+function gridLayout(rows: string[][]): Record<string, number> {
+    const keyboard: Record<string, number> = {};
+    rows.flat().forEach((code, n) => {
+        keyboard[code] = KEYPAD_LAYOUT[n];
+    });
+    return keyboard;
+}
+
+/** The left-hand 4×4 block of letter keys, named by position */
+const LETTER_GRID = gridLayout([
+    ["Digit1", "Digit2", "Digit3", "Digit4"],
+    ["KeyQ", "KeyW", "KeyE", "KeyR"],
+    ["KeyA", "KeyS", "KeyD", "KeyF"],
+    ["KeyZ", "KeyX", "KeyC", "KeyV"],
+]);
+
+/**
+ * Keyboard layouts to start bindings from.
+ *
+ * Key codes name physical keys by their QWERTY position, so the AZERTY grid of 1234/AZER/QSDF/WXCV
+ * lies on the same codes as the QWERTY one; only its labels differ.
+ */
+export const LAYOUT_PRESETS: ReadonlyArray<LayoutPreset> = [
+    {
+        name: "QWERTY",
+        keyboard: { ...LETTER_GRID, ...ARROW_KEYS },
+    },
+    {
+        name: "AZERTY",
+        keyboard: { ...LETTER_GRID, ...ARROW_KEYS },
+        labels: { KeyQ: "A", KeyW: "Z", KeyA: "Q", KeyZ: "W", KeyM: ",", Semicolon: "M" },
+    },
+    {
+        name: "Numeric keypad",
+        keyboard: {
+            Numpad0: 0x0, Numpad1: 0x1, Numpad2: 0x2, Numpad3: 0x3,
+            Numpad4: 0x4, Numpad5: 0x5, Numpad6: 0x6, Numpad7: 0x7,
+            Numpad8: 0x8, Numpad9: 0x9, NumpadDecimal: 0xA, NumpadEnter: 0xB,
+            NumpadDivide: 0xC, NumpadMultiply: 0xD, NumpadSubtract: 0xE, NumpadAdd: 0xF,
+            ...ARROW_KEYS,
+        },
+    },
+];
+
+/** Standard gamepad button indices */
+export const GAMEPAD_BUTTONS = {
+    A: 0,
+    B: 1,
+    X: 2,
+    Y: 3,
+    Select: 8,
+    Start: 9,
+    Up: 12,
+    Down: 13,
+    Left: 14,
+    Right: 15,
+} as const;
+
+/** Gamepad bindings until the user picks others; the D-pad matches the arrow keys */
+export const DEFAULT_GAMEPAD_BINDINGS: Readonly<Record<number, number>> = {
+    [GAMEPAD_BUTTONS.Up]: 0x5,
+    [GAMEPAD_BUTTONS.Left]: 0x7,
+    [GAMEPAD_BUTTONS.Down]: 0x8,
+    [GAMEPAD_BUTTONS.Right]: 0x9,
+    [GAMEPAD_BUTTONS.A]: 0x6,
+    [GAMEPAD_BUTTONS.B]: 0x4,
+    [GAMEPAD_BUTTONS.X]: 0xA,
+    [GAMEPAD_BUTTONS.Y]: 0xB,
+    [GAMEPAD_BUTTONS.Select]: 0xE,
+    [GAMEPAD_BUTTONS.Start]: 0xF,
+};
+
+const ARROW_LABELS: Record<string, string> = {
+    ArrowUp: "↑",
+    ArrowLeft: "←",
+    ArrowDown: "↓",
+    ArrowRight: "→",
+};
+
+/** Stick deflection past which a stick counts as pressing the matching D-pad button */
+const STICK_THRESHOLD = 0.5;
+
+/**
+ * Names a key for display
+ * @param code `KeyboardEvent.code` of the key
+ * @param labels labels of the user's keyboard layout
+ */
+export function keyLabel(code: string, labels: Record<string, string> = {}): string {
+    return labels[code] ?? ARROW_LABELS[code] ?? code.replace(/^(Key|Digit)/, "");
+}
+
+/**
+ * Names a standard gamepad button for display
+ */
+export function gamepadButtonLabel(button: number): string {
+    const name = Object.entries(GAMEPAD_BUTTONS).find(([, index]) => index === button)?.[0];
+    return `Pad ${name ?? button}`;
+}
+
+/**
+ * Bindings used until the user edits them
+ */
+export function defaultBindings(): KeyBindings {
+    return {
+        keyboard: { ...LAYOUT_PRESETS[0].keyboard },
+        gamepad: { ...DEFAULT_GAMEPAD_BINDINGS },
+    };
+}
+
+function checkKey(key: number) {
+    if (!Number.isInteger(key) || key < 0 || key >= KEYPAD_SIZE) {
+        throw Error(`Invalid keypad key: ${key}`);
+    }
+}
+
+/**
+ * Copies bindings with a keyboard key pressing a keypad key, replacing whatever the keyboard key pressed before
+ */
+export function bindKeyboard(bindings: KeyBindings, code: string, key: number): KeyBindings {
+    checkKey(key);
+    return { ...bindings, keyboard: { ...bindings.keyboard, [code]: key } };
+}
+
+/**
+ * Copies bindings with a gamepad button pressing a keypad key, replacing whatever the button pressed before
+ */
+export function bindGamepad(bindings: KeyBindings, button: number, key: number): KeyBindings {
+    checkKey(key);
+    return { ...bindings, gamepad: { ...bindings.gamepad, [button]: key } };
+}
+
+/**
+ * Copies bindings without any input pressing a keypad key
+ */
+export function unbindKey(bindings: KeyBindings, key: number): KeyBindings {
+    const keyboard = Object.fromEntries(Object.entries(bindings.keyboard).filter(([, bound]) => bound !== key));
+    const gamepad = Object.fromEntries(Object.entries(bindings.gamepad).filter(([, bound]) => bound !== key));
+    return { keyboard, gamepad };
+}
+
+/**
+ * Lists the keyboard key codes bound to a keypad key
+ */
+export function keyboardBindingsFor(bindings: KeyBindings, key: number): string[] {
+    return Object.keys(bindings.keyboard).filter((code) => bindings.keyboard[code] === key);
+}
+
+/**
+ * Lists the gamepad buttons bound to a keypad key
+ */
+export function gamepadBindingsFor(bindings: KeyBindings, key: number): number[] {
+    return Object.keys(bindings.gamepad).map(Number).filter((button) => bindings.gamepad[button] === key);
+}
+
+/**
+ * Lists the buttons held on a gamepad, counting the left stick as the D-pad
+ */
+export function heldButtons(gamepad: Gamepad): number[] {
+    const held = gamepad.buttons.flatMap((button, index) => (button.pressed ? [index] : []));
+    const [x = 0, y = 0] = gamepad.axes;
+    if (x <= -STICK_THRESHOLD) {
+        held.push(GAMEPAD_BUTTONS.Left);
+    } else if (x >= STICK_THRESHOLD) {
+        held.push(GAMEPAD_BUTTONS.Right);
+    }
+    if (y <= -STICK_THRESHOLD) {
+        held.push(GAMEPAD_BUTTONS.Up);
+    } else if (y >= STICK_THRESHOLD) {
+        held.push(GAMEPAD_BUTTONS.Down);
+    }
+    return held;
+}
+
+/**
+ * Translates keyboard and gamepad input into hex keypad presses.
+ *
+ * A keypad key stays pressed while any input bound to it is held.
+ */
+export class InputMapper {
+    private bindings: KeyBindings;
+    private press: (key: number) => void;
+    private release: (key: number) => void;
+    /**
+     * Held inputs, as `key:<code>`, `pad:<gamepad index>:<button>` or `pointer:<pointer ID>`,
+     * and the keypad key each pressed
+     */
+    private held = new Map<string, number>();
+
+    /**
+     * @param press called when a keypad key becomes pressed
+     * @param release called when a keypad key is no longer pressed
+     * @param bindings bindings to start with
+     */
+    public constructor(press: (key: number) => void, release: (key: number) => void, bindings = defaultBindings()) {
+        this.press = press;
+        this.release = release;
+        this.bindings = bindings;
+    }
+
+    /**
+     * Replaces the bindings, releasing every held key
+     */
+    public setBindings(bindings: KeyBindings) {
+        this.releaseAll();
+        this.bindings = bindings;
+    }
+
+    public getBindings(): KeyBindings {
+        return this.bindings;
+    }
+
+    /**
+     * Lists the keypad keys held by any input
+     */
+    public getHeldKeys(): number[] {
+        return [...new Set(this.held.values())];
+    }
+
+    public releaseAll() {
+        for (const input of [...this.held.keys()]) {
+            this.inputUp(input);
+        }
+    }
+
+    private isKeyHeld(key: number): boolean {
+        for (const heldKey of this.held.values()) {
+            if (heldKey === key) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private inputDown(input: string, key: number) {
+        if (this.held.has(input)) {
+            return;
+        }
+
+        const wasHeld = this.isKeyHeld(key);
+        this.held.set(input, key);
+        if (!wasHeld) {
+            this.press(key);
+        }
+    }
+
+    private inputUp(input: string) {
+        const key = this.held.get(input);
+        if (key === undefined) {
+            return;
+        }
+
+        this.held.delete(input);
+        if (!this.isKeyHeld(key)) {
+            this.release(key);
+        }
+    }
+
+    /**
+     * @param code `KeyboardEvent.code` of the pressed key
+     * @returns whether the key is bound to the keypad
+     */
+    public handleKeyDown(code: string): boolean {
+        const key = this.bindings.keyboard[code];
+        if (key === undefined) {
+            return false;
+        }
+
+        this.inputDown(`key:${code}`, key);
+        return true;
+    }
+
+    /**
+     * @param code `KeyboardEvent.code` of the released key
+     * @returns whether the key was bound to the keypad
+     */
+    public handleKeyUp(code: string): boolean {
+        const input = `key:${code}`;
+        const bound = this.held.has(input) || this.bindings.keyboard[code] !== undefined;
+        this.inputUp(input);
+        return bound;
+    }
+
+    /**
+     * Presses a keypad key for an on-screen pointer, releasing whatever key the pointer held before
+     * @param pointerId `PointerEvent.pointerId` of the pointer
+     * @param key keypad key under the pointer
+     */
+    public handlePointerDown(pointerId: number, key: number) {
+        checkKey(key);
+        const input = `pointer:${pointerId}`;
+        if (this.held.get(input) === key) {
+            return;
+        }
+
+        this.inputUp(input);
+        this.inputDown(input, key);
+    }
+
+    /**
+     * @param pointerId `PointerEvent.pointerId` of the lifted pointer
+     */
+    public handlePointerUp(pointerId: number) {
+        this.inputUp(`pointer:${pointerId}`);
+    }
+
+    /**
+     * Presses and releases keys to match the buttons now held on every gamepad
+     * @param gamepads result of `navigator.getGamepads()`
+     */
+    public pollGamepads(gamepads: ArrayLike<Gamepad | null>) {
+        const nowHeld = new Set<string>();
+        for (const gamepad of Array.from(gamepads)) {
+            if (!gamepad) {
+                continue;
+            }
+
+            for (const button of heldButtons(gamepad)) {
+                const key = this.bindings.gamepad[button];
+                if (key !== undefined) {
+                    const input = `pad:${gamepad.index}:${button}`;
+                    nowHeld.add(input);
+                    this.inputDown(input, key);
+                }
+            }
+        }
+
+        for (const input of [...this.held.keys()]) {
+            if (input.startsWith("pad:") && !nowHeld.has(input)) {
+                this.inputUp(input);
+            }
+        }
+    }
+}
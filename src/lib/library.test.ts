@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { FramebufferDisplay } from './display';
+import { captureThumbnail, compareEntries, titleFromFileName, type LibraryEntry } from './library';
+
+function entry(title: string, lastPlayed: number | null): LibraryEntry {
+	return {
+		hash: title,
+		data: new Uint8Array(0),
+		title,
+		author: '',
+		description: '',
+		thumbnail: null,
+		addedAt: 0,
+		lastPlayed,
+		settings: {}
+	};
+}
+
+describe('ROM library', () => {
+	it('derives titles from file names', () => {
+		expect(titleFromFileName('space_invaders.ch8')).toBe('space invaders');
+		expect(titleFromFileName('Tetris [Fran Dachille, 1991].ch8')).toBe('Tetris [Fran Dachille, 1991]');
+		expect(titleFromFileName('.ch8')).toBe('.ch8');
+	});
+
+	it('lists recently played ROMs first, then the rest by title', () => {
+		const entries = [entry('Pong', null), entry('Tetris', 2), entry('Brix', null), entry('Blinky', 5)];
+
+		expect(entries.sort(compareEntries).map((other) => other.title)).toEqual(['Blinky', 'Tetris', 'Brix', 'Pong']);
+	});
+
+	it('captures thumbnails which do not share the display buffer', () => {
+		const display = new FramebufferDisplay();
+		display.toggleVPixel(1, 0);
+		const thumbnail = captureThumbnail(display);
+		display.toggleVPixel(1, 0);
+
+		expect(thumbnail.width).toBe(display.vWidth);
+		expect(thumbnail.pixels[1]).toBe(1);
+	});
+});
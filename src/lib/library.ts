@@ -0,0 +1,181 @@
+import type { Display } from "./display";
+import type { Quirks, QuirksPreset } from "./quirks";
+import { openDatabase, requestResult, ROMS_STORE } from "./database";
+import { hashROM } from "./rom";
+
+/**
+ * Settings remembered for a ROM and applied whenever it is opened. Unset fields keep
+ * whatever is active at the time.
+ *
+ * Key bindings are remembered separately, by the input settings, under the same ROM hash.
+ */
+export interface ROMSettings {
+    quirksPreset?: QuirksPreset;
+    quirks?: Quirks;
+    speed?: number;
+    cyclesPerFrame?: number;
+    paletteName?: string;
+}
+
+/**
+ * Small copy of the display, as plane bit masks like `Display.pixels`
+ */
+export interface Thumbnail {
+    width: number;
+    height: number;
+    pixels: Uint8Array;
+}
+
+/**
+ * A ROM stored in the library
+ */
+export interface LibraryEntry {
+    /** SHA-1 hash of the ROM */
+    hash: string;
+    data: Uint8Array;
+    title: string;
+    author: string;
+    description: string;
+    thumbnail: Thumbnail | null;
+    /** Time the ROM was added, in milliseconds since the epoch */
+    addedAt: number;
+    /** Time the ROM was last opened, in milliseconds since the epoch, or null if never */
+    lastPlayed: number | null;
+    settings: ROMSettings;
+}
+
+/**
+ * Derives a title from a ROM's file name
+ * @param fileName name of the ROM file, e.g. `space_invaders.ch8`
+ */
+export function titleFromFileName(fileName: string): string {
+    const base = fileName.replace(/\.[^.]*$/, "").replace(/[_-]+/g, " ").trim();
+    return base || fileName;
+}
+
+/**
+ * Copies the current display contents for use as a thumbnail
+ * @param display display to copy
+ */
+export function captureThumbnail(display: Display): Thumbnail {
+    return { width: display.vWidth, height: display.vHeight, pixels: display.pixels.slice() };
+}
+
+/**
+ * Orders library entries with the most recently played first, then never-played ones by title
+ */
+export function compareEntries(a: LibraryEntry, b: LibraryEntry): number {
+    if (a.lastPlayed !== b.lastPlayed) {
+        return (b.lastPlayed ?? 0) - (a.lastPlayed ?? 0);
+    }
+    return a.title.localeCompare(b.title);
+}
+
+/**
+ * Reads a single library entry
+ * @param hash hash of the ROM
+ * @returns the entry, or undefined if the ROM is not in the library
+ */
+export async function readEntry(hash: string): Promise<LibraryEntry | undefined> {
+    const db = await openDatabase();
+    const store = db.transaction(ROMS_STORE, "readonly").objectStore(ROMS_STORE);
+    return await requestResult(store.get(hash) as IDBRequest<LibraryEntry | undefined>);
+}
+
+/**
+ * Stores a library entry, replacing any previous entry for the same ROM
+ * @param entry entry to store
+ */
+export async function writeEntry(entry: LibraryEntry): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(ROMS_STORE, "readwrite").objectStore(ROMS_STORE);
+    await requestResult(store.put(entry));
+}
+
+/**
+ * Reads every library entry
+ * @returns entries, ordered by `compareEntries()`
+ */
+export async function listEntries(): Promise<LibraryEntry[]> {
+    const db = await openDatabase();
+    const store = db.transaction(ROMS_STORE, "readonly").objectStore(ROMS_STORE);
+    const entries = await requestResult(store.getAll() as IDBRequest<LibraryEntry[]>);
+    return entries.sort(compareEntries);
+}
+
+/**
+ * Removes a ROM from the library. Its save states and key bindings are kept.
+ * @param hash hash of the ROM
+ */
+export async function deleteEntry(hash: string): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(ROMS_STORE, "readwrite").objectStore(ROMS_STORE);
+    await requestResult(store.delete(hash));
+}
+
+/**
+ * Adds a ROM to the library, or finds it if it is already there
+ * @param data binary ROM data
+ * @param fileName name of the ROM file, used as the title of a new entry
+ * @param details known details of the ROM, which replace the title derived from the file name
+ * @returns the stored entry
+ */
+export async function addROM(
+    data: Uint8Array,
+    fileName: string,
+    details: Partial<Pick<LibraryEntry, "title" | "author" | "description">> = {}
+): Promise<LibraryEntry> {
+    const hash = await hashROM(data);
+    const existing = await readEntry(hash);
+    if (existing) {
+        return existing;
+    }
+
+    const entry: LibraryEntry = {
+        hash,
+        data: data.slice(),
+        title: titleFromFileName(fileName),
+        author: "",
+        description: "",
+        thumbnail: null,
+        addedAt: Date.now(),
+        lastPlayed: null,
+        settings: {},
+        ...details,
+    };
+    await writeEntry(entry);
+    return entry;
+}
+
+/**
+ * Changes part of a library entry. Does nothing if the ROM is not in the library.
+ * @param hash hash of the ROM
+ * @param changes fields to replace
+ * @returns the updated entry, or undefined if the ROM is not in the library
+ */
+export async function updateEntry(
+    hash: string,
+    changes: Partial<Omit<LibraryEntry, "hash" | "data">>
+): Promise<LibraryEntry | undefined> {
+    const entry = await readEntry(hash);
+    if (!entry) {
+        return undefined;
+    }
+
+    const updated = { ...entry, ...changes };
+    await writeEntry(updated);
+    return updated;
+}
+
+/**
+ * Remembers settings for a ROM, keeping any other settings already remembered.
+ * Does nothing if the ROM is not in the library.
+ * @param hash hash of the ROM
+ * @param changes settings to remember
+ */
+export async function rememberSettings(hash: string, changes: ROMSettings): Promise<void> {
+    const entry = await readEntry(hash);
+    if (entry) {
+        await writeEntry({ ...entry, settings: { ...entry.settings, ...changes } });
+    }
+}
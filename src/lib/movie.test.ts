@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import Chip8 from './emulator';
+import { FramebufferDisplay } from './display';
+import { resolveQuirks } from './quirks';
+import { Random } from './random';
+import { MovieRecorder, MoviePlayer, exportMovie, importMovie, replayMovie, startMovie, type Movie } from './movie';
+
+// V0 = rand & 0x3F; V1 = rand & 0x1F; clear the screen while key 5 is held; draw font '0' at (V0, V1); repeat
+const ROM = new Uint8Array([
+	0xa0, 0x00, 0xc0, 0x3f, 0xc1, 0x1f, 0x62, 0x05, 0xe2, 0xa1, 0x00, 0xe0, 0xd0, 0x15, 0x12, 0x02
+]);
+
+/**
+ * Records a movie, holding key 5 on some frames
+ * @returns the movie, and the display it ended with
+ */
+function record(frameCount: number): { movie: Movie; pixels: Uint8Array } {
+	const display = new FramebufferDisplay();
+	const chip8 = new Chip8(display);
+	const settings = { romHash: 'abcd', quirks: resolveQuirks('vip'), cyclesPerFrame: 12, seed: 0xdeadbeef };
+	startMovie(chip8, ROM, settings);
+	const recorder = new MovieRecorder(settings);
+
+	for (let frame = 0; frame < frameCount; frame++) {
+		const keys = frame % 7 === 3 ? 1 << 5 : 0;
+		chip8.setKeyState(keys);
+		recorder.record(keys);
+		chip8.runFrame(settings.cyclesPerFrame);
+	}
+
+	return { movie: recorder.finish(), pixels: display.pixels.slice() };
+}
+
+describe('random numbers', () => {
+	it('produces the same sequence for the same seed', () => {
+		const first = new Random(42);
+		const second = new Random(42);
+		const other = new Random(43);
+
+		const sequence = Array.from({ length: 8 }, () => first.nextUint32());
+		expect(Array.from({ length: 8 }, () => second.nextUint32())).toEqual(sequence);
+		expect(Array.from({ length: 8 }, () => other.nextUint32())).not.toEqual(sequence);
+	});
+
+	it('continues from a saved state', () => {
+		const random = new Random(1);
+		random.nextByte();
+		const state = random.getState();
+		const expected = random.nextByte();
+
+		random.setState(state);
+		expect(random.nextByte()).toBe(expected);
+	});
+});
+
+describe('movies', () => {
+	it('replays to a bit-identical display', () => {
+		const { movie, pixels } = record(120);
+		const display = new FramebufferDisplay();
+		// Seed and quirks come from the movie, not the emulator
+		const chip8 = new Chip8(display, { seed: 1, quirks: resolveQuirks('schip') });
+
+		let frames = 0;
+		replayMovie(chip8, ROM, movie, (frame) => (frames = frame));
+
+		expect(frames).toBe(120);
+		expect(display.pixels).toEqual(pixels);
+		expect(pixels.some((pixel) => pixel !== 0)).toBe(true);
+	});
+
+	it('replays identically after an earlier ROM saved RPL flags', () => {
+		const display = new FramebufferDisplay();
+		const chip8 = new Chip8(display);
+		// V0 = 0; V1 = 0; V2 = 5; save V0-V2 to flags
+		chip8.loadROM(new Uint8Array([0x60, 0x00, 0x61, 0x00, 0x62, 0x05, 0xf2, 0x75]));
+		chip8.runFrame(4);
+
+		// Load V0-V2 from flags; I = font char V2; draw at (V0, V0); loop
+		const rom = new Uint8Array([0xf2, 0x85, 0xf2, 0x29, 0xd0, 0x05, 0x12, 0x06]);
+		const settings = { romHash: 'abcd', quirks: resolveQuirks('schip'), cyclesPerFrame: 4, seed: 0 };
+		startMovie(chip8, rom, settings);
+		const recorder = new MovieRecorder(settings);
+		for (let frame = 0; frame < 3; frame++) {
+			recorder.record(0);
+			chip8.runFrame(settings.cyclesPerFrame);
+		}
+
+		const replayDisplay = new FramebufferDisplay();
+		replayMovie(new Chip8(replayDisplay), rom, recorder.finish());
+
+		expect(replayDisplay.pixels).toEqual(display.pixels);
+		expect(display.pixels.some((pixel) => pixel !== 0)).toBe(true);
+	});
+
+	it('depends on the seed', () => {
+		const { movie, pixels } = record(30);
+		const display = new FramebufferDisplay();
+		replayMovie(new Chip8(display), ROM, { ...movie, seed: movie.seed + 1 });
+
+		expect(display.pixels).not.toEqual(pixels);
+	});
+
+	it('plays back the recorded keypad states in order', () => {
+		const player = new MoviePlayer(record(5).movie);
+
+		expect([player.next(), player.next(), player.next(), player.next()]).toEqual([0, 0, 0, 1 << 5]);
+		expect(player.frame).toBe(4);
+		expect(player.next()).toBe(0);
+		expect(player.isFinished()).toBe(true);
+		expect(player.next()).toBeNull();
+	});
+
+	it('survives export and import', () => {
+		const { movie } = record(10);
+
+		expect(importMovie(exportMovie(movie))).toEqual(movie);
+	});
+
+	it('rejects files which are not valid movies', () => {
+		const text = exportMovie(record(2).movie);
+
+		expect(() => importMovie('{"frames": []}')).toThrowError(/movie/);
+		expect(() => importMovie(text.replace('"version":1', '"version":2'))).toThrowError(/version/);
+		expect(() => importMovie(text.replace('"frames":[0,0]', '"frames":[0,65536]'))).toThrowError(/keypad/);
+	});
+
+	it('rejects movies without quirks or a ROM hash', () => {
+		const text = exportMovie(record(2).movie);
+
+		expect(() => importMovie(text.replace(/"quirks":\{[^}]*\}/, '"quirks":null'))).toThrowError(/movie/);
+		expect(() => importMovie(text.replace('"clipSprites":true', '"clipSprites":1'))).toThrowError(/quirks/);
+		expect(() => importMovie(text.replace('"romHash":"abcd"', '"romHash":1234'))).toThrowError(/movie/);
+	});
+});
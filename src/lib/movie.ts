@@ -0,0 +1,180 @@
+import type Chip8 from "./emulator";
+import { QUIRK_DESCRIPTIONS, type Quirks } from "./quirks";
+
+/** Version of the `Movie` format produced by `MovieRecorder` */
+export const MOVIE_VERSION = 1;
+
+/** Identifies exported movie files */
+const FILE_FORMAT = "chippy-movie";
+
+/**
+ * A recording of the input given to a ROM, from power-on, which replays exactly
+ */
+export interface Movie {
+    /** Format version; see `MOVIE_VERSION` */
+    version: number;
+    /** SHA-1 hash of the ROM the movie was recorded with */
+    romHash: string;
+    quirks: Quirks;
+    cyclesPerFrame: number;
+    /** Seed of the random number generator */
+    seed: number;
+    /** Keypad state of each frame, as bit masks with bit N set while key N is held */
+    frames: number[];
+}
+
+/**
+ * Progress of a movie being recorded or played
+ */
+export interface MovieStatus {
+    mode: "recording" | "playing";
+    /** Frames recorded or played so far */
+    frame: number;
+    /** Frames in the movie; grows with `frame` while recording */
+    length: number;
+}
+
+/**
+ * Puts an emulator into the state every movie starts from: the ROM freshly loaded, with
+ * the movie's quirks and seed, and the RPL flags cleared as they are at power-on
+ * @param chip8 emulator to set up
+ * @param rom binary ROM data
+ * @param movie movie to start; only its settings are used
+ */
+export function startMovie(chip8: Chip8, rom: Uint8Array, movie: Pick<Movie, "quirks" | "seed">) {
+    chip8.loadROM(rom);
+    chip8.clearRPLFlags();
+    chip8.setQuirks(movie.quirks);
+    chip8.setSeed(movie.seed);
+    chip8.setKeyState(0);
+}
+
+/**
+ * Collects the keypad state of each frame into a movie
+ */
+export class MovieRecorder {
+    private settings: Omit<Movie, "version" | "frames">;
+    private frames: number[] = [];
+
+    /**
+     * @param settings settings the emulator was started with by `startMovie()`
+     */
+    public constructor(settings: Omit<Movie, "version" | "frames">) {
+        this.settings = { ...settings, quirks: { ...settings.quirks } };
+    }
+
+    /** Number of frames recorded */
+    public get length(): number {
+        return this.frames.length;
+    }
+
+    /**
+     * Records the keypad state of the frame about to run
+     * @param keys bit mask of held keys
+     */
+    public record(keys: number) {
+        this.frames.push(keys);
+    }
+
+    /**
+     * @returns the movie recorded so far
+     */
+    public finish(): Movie {
+        return { version: MOVIE_VERSION, ...this.settings, frames: this.frames.slice() };
+    }
+}
+
+/**
+ * Feeds a movie's keypad states back, one frame at a time
+ */
+export class MoviePlayer {
+    public readonly movie: Movie;
+    private position = 0;
+
+    public constructor(movie: Movie) {
+        if (movie.version !== MOVIE_VERSION) {
+            throw Error(`Unsupported movie version ${movie.version}; expected ${MOVIE_VERSION}`);
+        }
+
+        this.movie = movie;
+    }
+
+    /** Number of frames played */
+    public get frame(): number {
+        return this.position;
+    }
+
+    public isFinished(): boolean {
+        return this.position >= this.movie.frames.length;
+    }
+
+    /**
+     * @returns the keypad state of the next frame, or null once the movie has finished
+     */
+    public next(): number | null {
+        if (this.isFinished()) {
+            return null;
+        }
+        return this.movie.frames[this.position++];
+    }
+}
+
+/**
+ * Plays a whole movie as fast as possible
+ * @param chip8 emulator to play on; it should use the default manual clock
+ * @param rom binary ROM data the movie was recorded with
+ * @param movie movie to play
+ * @param onFrame called after each frame, with the number of frames played
+ */
+export function replayMovie(chip8: Chip8, rom: Uint8Array, movie: Movie, onFrame?: (frame: number) => void) {
+    const player = new MoviePlayer(movie);
+    startMovie(chip8, rom, movie);
+
+    let keys = player.next();
+    while (keys !== null) {
+        chip8.setKeyState(keys);
+        chip8.runFrame(movie.cyclesPerFrame);
+        onFrame?.(player.frame);
+        keys = player.next();
+    }
+}
+
+/**
+ * Serializes a movie to JSON text, for export to a file
+ * @param movie movie to serialize
+ */
+export function exportMovie(movie: Movie): string {
+    return JSON.stringify({ format: FILE_FORMAT, ...movie });
+}
+
+/**
+ * Parses a movie exported by `exportMovie()`
+ * @param text JSON text of the movie file
+ */
+export function importMovie(text: string): Movie {
+    const parsed = JSON.parse(text);
+    if (
+        parsed?.format !== FILE_FORMAT ||
+        !Array.isArray(parsed.frames) ||
+        typeof parsed.romHash !== "string" ||
+        typeof parsed.quirks !== "object" ||
+        parsed.quirks === null
+    ) {
+        throw Error("Not a movie file");
+    }
+    if (Object.keys(QUIRK_DESCRIPTIONS).some((flag) => typeof parsed.quirks[flag] !== "boolean")) {
+        throw Error("Not a movie file: invalid quirks");
+    }
+
+    const { version, romHash, quirks, cyclesPerFrame, seed, frames } = parsed;
+    if (version !== MOVIE_VERSION) {
+        throw Error(`Unsupported movie version ${version}; expected ${MOVIE_VERSION}`);
+    }
+    if (!Number.isInteger(cyclesPerFrame) || cyclesPerFrame < 1 || !Number.isInteger(seed)) {
+        throw Error("Movie has invalid settings");
+    }
+    if (frames.some((keys: unknown) => !Number.isInteger(keys) || (keys as number) < 0 || (keys as number) > 0xFFFF)) {
+        throw Error("Movie has an invalid keypad state");
+    }
+    return { version, romHash, quirks, cyclesPerFrame, seed, frames };
+}
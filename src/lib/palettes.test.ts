@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { BUILTIN_PALETTES, paletteColors, parseHexColor } from './palettes';
+
+describe('parseHexColor', () => {
+	it('parses long and short hex colours', () => {
+		const [r, g, b] = parseHexColor('#ff8000');
+		expect(r).toBe(1);
+		expect(g).toBeCloseTo(128 / 255);
+		expect(b).toBe(0);
+		expect(Array.from(parseHexColor('#fff'))).toEqual([1, 1, 1]);
+	});
+
+	it('rejects anything else', () => {
+		expect(() => parseHexColor('red')).toThrow();
+		expect(() => parseHexColor('#12345')).toThrow();
+	});
+});
+
+describe('built-in palettes', () => {
+	it('have a colour for every plane mask', () => {
+		for (const palette of BUILTIN_PALETTES) {
+			expect(paletteColors(palette)).toHaveLength(4);
+		}
+	});
+});
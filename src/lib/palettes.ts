@@ -0,0 +1,47 @@
+import { vec3 } from "gl-matrix";
+
+/**
+ * Named set of display colours, as CSS hex colours (`#rrggbb`) indexed by plane bit mask:
+ * unlit, first plane, second plane, both planes
+ */
+export interface Palette {
+    name: string;
+    colors: [string, string, string, string];
+}
+
+/** Palettes which are always available */
+export const BUILTIN_PALETTES: ReadonlyArray<Palette> = [
+    { name: "Classic", colors: ["#000000", "#ffffff", "#aaaaaa", "#555555"] },
+    { name: "Octo", colors: ["#996600", "#ffcc00", "#ff6600", "#662200"] },
+    { name: "Green phosphor", colors: ["#051405", "#33ff66", "#1f9940", "#0f4d20"] },
+    { name: "Amber", colors: ["#140c00", "#ffb000", "#b37b00", "#593d00"] },
+    { name: "LCD", colors: ["#9bbc0f", "#0f380f", "#306230", "#8bac0f"] },
+];
+
+/** Name of the palette used until the user picks another */
+export const DEFAULT_PALETTE_NAME = "Classic";
+
+/**
+ * Converts a CSS hex colour to RGB components between 0 and 1
+ * @param color colour in `#rgb` or `#rrggbb` form
+ */
+export function parseHexColor(color: string): vec3 {
+    let digits = color.replace(/^#/, "");
+    if (/^[0-9a-f]{3}$/i.test(digits)) {
+        digits = digits.split("").map((digit) => digit + digit).join("");
+    }
+    if (!/^[0-9a-f]{6}$/i.test(digits)) {
+        throw Error(`Invalid colour: ${color}`);
+    }
+
+    const value = parseInt(digits, 16);
+    return vec3.fromValues(((value >> 16) & 0xFF) / 255, ((value >> 8) & 0xFF) / 255, (value & 0xFF) / 255);
+}
+
+/**
+ * Converts a palette to the RGB colours expected by a display
+ * @param palette palette to convert
+ */
+export function paletteColors(palette: Palette): vec3[] {
+    return palette.colors.map(parseHexColor);
+}
@@ -0,0 +1,33 @@
+import { openDatabase, PREFERENCES_STORE, requestResult } from "./database";
+
+/**
+ * Reads a stored preference
+ * @param key preference name
+ * @returns the stored value, or undefined if it was never set
+ */
+export async function readPreference<T>(key: string): Promise<T | undefined> {
+    const db = await openDatabase();
+    const store = db.transaction(PREFERENCES_STORE, "readonly").objectStore(PREFERENCES_STORE);
+    return await requestResult(store.get(key) as IDBRequest<T | undefined>);
+}
+
+/**
+ * Stores a preference, replacing any previous value
+ * @param key preference name
+ * @param value value to store; must be structured-cloneable
+ */
+export async function writePreference<T>(key: string, value: T): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(PREFERENCES_STORE, "readwrite").objectStore(PREFERENCES_STORE);
+    await requestResult(store.put(value, key));
+}
+
+/**
+ * Removes a stored preference, if it was set
+ * @param key preference name
+ */
+export async function deletePreference(key: string): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(PREFERENCES_STORE, "readwrite").objectStore(PREFERENCES_STORE);
+    await requestResult(store.delete(key));
+}
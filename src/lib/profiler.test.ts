@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import Chip8 from './emulator';
+import { Profiler, exportProfile, findUnexecutedCode } from './profiler';
+import { load, rom, run } from './test_helpers';
+
+function setup(program: Uint8Array) {
+	const chip8 = load(program);
+	return { chip8, profiler: new Profiler(chip8) };
+}
+
+// 0x200: call 0x208; call 0x20C; spin
+// 0x208: V0 += 1; return
+// 0x20C: call 0x208; return
+const CALL_PROGRAM = rom(0x2208, 0x220c, 0x1204, 0x0000, 0x7001, 0x00ee, 0x2208, 0x00ee);
+
+describe('Profiler', () => {
+	it('counts executions of each address', () => {
+		const { chip8, profiler } = setup(rom(0x6003, 0x7001, 0x3007, 0x1202, 0x1208));
+		run(chip8, 20);
+		const profile = profiler.getProfile();
+
+		expect(profile.instructions).toBe(20);
+		expect(profile.counts[0x200]).toBe(1);
+		expect(profile.counts[0x202]).toBe(4);
+		expect(profile.counts[0x206]).toBe(3);
+		expect(profile.counts[0x208]).toBe(8);
+	});
+
+	it('counts instructions per subroutine, with and without what it called', () => {
+		const { chip8, profiler } = setup(CALL_PROGRAM);
+		// Both calls and their returns, then three turns of the spin loop
+		run(chip8, 11);
+		const subroutines = profiler.getProfile().subroutines;
+
+		expect(subroutines).toEqual([
+			{ addr: 0x200, calls: 0, exclusive: 5, inclusive: 11 },
+			{ addr: 0x208, calls: 2, exclusive: 4, inclusive: 4 },
+			{ addr: 0x20c, calls: 1, exclusive: 2, inclusive: 4 }
+		]);
+	});
+
+	it('includes calls which have not returned yet', () => {
+		const { chip8, profiler } = setup(CALL_PROGRAM);
+		// Stop inside 0x208, called from 0x20C
+		run(chip8, 6);
+		const inclusive = Object.fromEntries(profiler.getProfile().subroutines.map((sub) => [sub.addr, sub.inclusive]));
+
+		expect(inclusive).toEqual({ 0x200: 6, 0x20c: 2, 0x208: 3 });
+	});
+
+	it('counts recursive calls once towards inclusive counts', () => {
+		// 0x200: V0 = 3; call 0x206; spin
+		// 0x206: V0 -= 1; if V0 != 0 then call 0x206; return
+		const { chip8, profiler } = setup(rom(0x6003, 0x2206, 0x1204, 0x70ff, 0x3000, 0x2206, 0x00ee));
+		run(chip8, 14);
+		const recursive = profiler.getProfile().subroutines.find((sub) => sub.addr === 0x206);
+
+		expect(recursive).toEqual({ addr: 0x206, calls: 3, exclusive: 11, inclusive: 11 });
+	});
+
+	it('follows the call stack through faults that are not halted on', () => {
+		// Call itself forever, overflowing the stack
+		const chip8 = load(rom(0x2200), { faultPolicies: { stackOverflow: 'ignore' } });
+		const profiler = new Profiler(chip8);
+		run(chip8, 40);
+		const recursive = profiler.getProfile().subroutines.find((sub) => sub.addr === 0x200);
+
+		expect(recursive?.calls).toBe(16);
+	});
+
+	it('starts again when cleared, and stops once detached', () => {
+		const { chip8, profiler } = setup(CALL_PROGRAM);
+		run(chip8, 3);
+		profiler.clear();
+		run(chip8, 2);
+		profiler.detach();
+		run(chip8, 2);
+
+		expect(profiler.getProfile().instructions).toBe(2);
+		expect(profiler.getProfile().counts[0x200]).toBe(0);
+	});
+});
+
+describe('profile reports', () => {
+	// 0x200: if V0 == 1 then jump 0x208; spin; V1 = 1; V2 = 2; spin
+	const BRANCH_PROGRAM = rom(0x4001, 0x1208, 0x1204, 0x0000, 0x6101, 0x6202, 0x120c);
+
+	it('finds code which never executed', () => {
+		const { chip8, profiler } = setup(BRANCH_PROGRAM);
+		run(chip8, 6);
+		const memory = chip8.readMemory(0, Chip8.MEM_SIZE);
+
+		expect(findUnexecutedCode(memory, chip8.getROMSize(), profiler.getProfile())).toEqual([
+			{ start: 0x202, end: 0x204 },
+			{ start: 0x208, end: 0x20e }
+		]);
+	});
+
+	it('exports executed addresses, subroutines and unexecuted code as JSON', () => {
+		const { chip8, profiler } = setup(BRANCH_PROGRAM);
+		run(chip8, 3);
+		const profile = profiler.getProfile();
+		const unexecuted = findUnexecutedCode(chip8.readMemory(0, Chip8.MEM_SIZE), chip8.getROMSize(), profile);
+
+		expect(JSON.parse(exportProfile(profile, unexecuted))).toEqual({
+			format: 'chippy-profile',
+			version: 1,
+			instructions: 3,
+			addresses: [
+				{ addr: 0x200, count: 1 },
+				{ addr: 0x204, count: 2 }
+			],
+			subroutines: [{ addr: 0x200, calls: 0, exclusive: 3, inclusive: 3 }],
+			unexecuted
+		});
+	});
+});
@@ -0,0 +1,223 @@
+import Chip8 from "./emulator";
+import { ENTRY_POINT, decodeInstruction, findReachableCode } from "./disassembler";
+
+/** Version of the JSON produced by `exportProfile()` */
+export const PROFILE_VERSION = 1;
+
+/** Identifies exported profiles */
+const FILE_FORMAT = "chippy-profile";
+
+/** Opcode category of 2NNN subroutine calls */
+const CALL_CATEGORY = 0x2;
+/** 00EE, return from subroutine */
+const RETURN_OPCODE = 0x00EE;
+
+/**
+ * Instructions spent in a subroutine. Instructions outside any subroutine are counted
+ * against the program start location.
+ */
+export interface SubroutineProfile {
+    /** Address the subroutine was called at */
+    addr: number;
+    calls: number;
+    /** Instructions executed in the subroutine itself, including its final 00EE */
+    exclusive: number;
+    /** Instructions executed in the subroutine and everything it called */
+    inclusive: number;
+}
+
+/**
+ * Where a program spent its instructions, as gathered by `Profiler`
+ */
+export interface Profile {
+    /** Instructions executed in total */
+    instructions: number;
+    /** Number of times the instruction at each address executed, indexed by address */
+    counts: Uint32Array;
+    /** Subroutines which executed any instructions, most inclusive instructions first, then by address */
+    subroutines: SubroutineProfile[];
+}
+
+/**
+ * A run of instructions, from `start` up to but not including `end`
+ */
+export interface CodeRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * A call which has not returned yet
+ */
+interface ActiveCall {
+    addr: number;
+    /** Instructions executed in total when the call was made */
+    startedAt: number;
+}
+
+/**
+ * Counts the instructions a Chip8 executes, per address and per subroutine.
+ *
+ * Calls and returns are followed through the interpreter's own call stack, so calls which
+ * fault without pushing a return address don't throw the subroutine counts out.
+ */
+export class Profiler {
+    private chip8: Chip8;
+    private detachHooks: Array<() => void>;
+
+    private counts = new Uint32Array(Chip8.MEM_SIZE);
+    private instructions = 0;
+    private subroutines = new Map<number, SubroutineProfile>();
+    /** Calls in progress, outermost first, beneath the program itself */
+    private calls: ActiveCall[] = [];
+
+    /**
+     * @param chip8 emulator to profile
+     */
+    public constructor(chip8: Chip8) {
+        this.chip8 = chip8;
+        this.detachHooks = [chip8.onAfterStep((pc, opcode) => this.afterStep(pc, opcode))];
+        this.clear();
+    }
+
+    /**
+     * Stops counting; the counts so far are kept
+     */
+    public detach() {
+        this.detachHooks.forEach((detach) => detach());
+        this.detachHooks = [];
+    }
+
+    /**
+     * Discards every count, starting again from the program itself
+     */
+    public clear() {
+        this.counts.fill(0);
+        this.instructions = 0;
+        this.subroutines.clear();
+        this.calls = [{ addr: ENTRY_POINT, startedAt: 0 }];
+    }
+
+    /**
+     * @returns a copy of the counts so far, including the instructions of calls which
+     * have not returned yet
+     */
+    public getProfile(): Profile {
+        const subroutines = new Map<number, SubroutineProfile>();
+        for (const [addr, subroutine] of this.subroutines) {
+            subroutines.set(addr, { ...subroutine });
+        }
+
+        this.calls.forEach((call, depth) => {
+            const subroutine = subroutines.get(call.addr);
+            if (subroutine && this.isOutermost(call.addr, depth)) {
+                subroutine.inclusive += this.instructions - call.startedAt;
+            }
+        });
+
+        return {
+            instructions: this.instructions,
+            counts: this.counts.slice(),
+            subroutines: Array.from(subroutines.values()).sort((lhs, rhs) => rhs.inclusive - lhs.inclusive || lhs.addr - rhs.addr),
+        };
+    }
+
+    private subroutine(addr: number): SubroutineProfile {
+        let subroutine = this.subroutines.get(addr);
+        if (!subroutine) {
+            subroutine = { addr, calls: 0, exclusive: 0, inclusive: 0 };
+            this.subroutines.set(addr, subroutine);
+        }
+        return subroutine;
+    }
+
+    /**
+     * Whether the call at `depth` is the outermost call to its subroutine, so recursive calls
+     * aren't counted twice towards inclusive counts
+     */
+    private isOutermost(addr: number, depth: number): boolean {
+        return !this.calls.slice(0, depth).some((call) => call.addr === addr);
+    }
+
+    private afterStep(pc: number, opcode: number) {
+        this.counts[pc]++;
+        this.instructions++;
+        this.subroutine(this.calls[this.calls.length - 1].addr).exclusive++;
+
+        if (opcode >> 12 !== CALL_CATEGORY && opcode !== RETURN_OPCODE) {
+            return;
+        }
+
+        // Calls in progress beneath the program itself
+        const depth = this.chip8.inspect().callStack.length;
+        if (opcode >> 12 === CALL_CATEGORY && depth >= this.calls.length) {
+            const addr = opcode & 0xFFF;
+            this.subroutine(addr).calls++;
+            this.calls.push({ addr, startedAt: this.instructions });
+            return;
+        }
+
+        while (this.calls.length > depth + 1) {
+            const call = this.calls.pop() as ActiveCall;
+            if (this.isOutermost(call.addr, this.calls.length)) {
+                this.subroutine(call.addr).inclusive += this.instructions - call.startedAt;
+            }
+        }
+    }
+}
+
+/**
+ * Finds the code which never executed: instructions reachable from the entry point, as far
+ * as static analysis can tell, which the profile never counted
+ * @param memory memory holding the program
+ * @param romSize size of the program loaded at the program start location
+ * @param profile profile of the program
+ * @returns runs of adjacent unexecuted instructions, in address order
+ */
+export function findUnexecutedCode(memory: Uint8Array, romSize: number, profile: Profile): CodeRange[] {
+    const end = Math.min(ENTRY_POINT + romSize, memory.length);
+    const program = memory.subarray(0, end);
+    const code = Array.from(findReachableCode(program))
+        .filter((addr) => addr >= ENTRY_POINT && addr < end)
+        .sort((lhs, rhs) => lhs - rhs);
+
+    const ranges: CodeRange[] = [];
+    for (const addr of code) {
+        if (profile.counts[addr] > 0) {
+            continue;
+        }
+
+        const size = decodeInstruction(program, addr, "octo")?.size ?? 2;
+        const last = ranges[ranges.length - 1];
+        if (last && last.end === addr) {
+            last.end = addr + size;
+        } else {
+            ranges.push({ start: addr, end: addr + size });
+        }
+    }
+
+    return ranges;
+}
+
+/**
+ * Exports a profile as JSON, listing only the addresses which executed
+ * @param profile profile to export
+ * @param unexecuted code which never executed, as found by `findUnexecutedCode()`
+ */
+export function exportProfile(profile: Profile, unexecuted: CodeRange[] = []): string {
+    const addresses: Array<{ addr: number; count: number }> = [];
+    profile.counts.forEach((count, addr) => {
+        if (count > 0) {
+            addresses.push({ addr, count });
+        }
+    });
+
+    return JSON.stringify({
+        format: FILE_FORMAT,
+        version: PROFILE_VERSION,
+        instructions: profile.instructions,
+        addresses,
+        subroutines: profile.subroutines,
+        unexecuted,
+    });
+}
@@ -0,0 +1,121 @@
+import type { Chip8Registers, Chip8State } from "./emulator";
+import type { ConditionalBreakpoint } from "./debugger";
+import type { ByteDelta } from "./delta";
+import type { Quirks } from "./quirks";
+import type { Movie, MovieStatus } from "./movie";
+import type { Fault, FaultPolicies } from "./faults";
+import type { TraceStatus } from "./tracer";
+import type { Profile } from "./profiler";
+
+/**
+ * Either end of the channel between the page and the emulator worker
+ */
+export interface MessageEndpoint {
+    postMessage(message: unknown, transfer?: Transferable[]): void;
+    onmessage: ((ev: MessageEvent) => void) | null;
+}
+
+/**
+ * Debugger operations, mirroring the methods of `Debugger`
+ */
+export type DebuggerCommand =
+    | { action: "pause" }
+    | { action: "resume" }
+    | { action: "stepInto" }
+    | { action: "stepOver" }
+    | { action: "stepOut" }
+    | { action: "toggleBreakpoint"; pc: number }
+    | { action: "addCondition"; condition: Omit<ConditionalBreakpoint, "id"> }
+    | { action: "removeCondition"; id: number }
+    | { action: "toggleWatchpoint"; addr: number };
+
+/**
+ * Commands sent from the page to the emulator worker
+ */
+export type EmulatorCommand =
+    | { type: "loadROM"; rom: Uint8Array }
+    | { type: "reset" }
+    | { type: "pressKey"; key: number }
+    | { type: "releaseKey"; key: number }
+    | { type: "setQuirks"; quirks: Quirks }
+    | { type: "setFaultPolicies"; policies: Partial<FaultPolicies> }
+    | { type: "setRewindSeconds"; seconds: number }
+    | { type: "setRewinding"; active: boolean }
+    | { type: "pause" }
+    | { type: "resume" }
+    | { type: "advanceFrame" }
+    | { type: "setSpeed"; speed: number }
+    | { type: "setCyclesPerFrame"; cycles: number }
+    /** Replied to with a `stateSaved` event carrying the same request ID */
+    | { type: "saveState"; requestId: number }
+    | { type: "loadState"; state: Chip8State }
+    | { type: "pokeMemory"; addr: number; bytes: Uint8Array }
+    /** Restarts the loaded ROM and records its input from then on */
+    | { type: "startRecording"; romHash: string }
+    /** Replied to with a `movieRecorded` event carrying the same request ID */
+    | { type: "stopRecording"; requestId: number }
+    /** Restarts the loaded ROM, which must be the one the movie was recorded with, and plays the movie */
+    | { type: "playMovie"; movie: Movie }
+    | { type: "stopMovie" }
+    /** Starts recording a new trace, discarding the previous one, or stops recording and keeps it */
+    | { type: "setTracing"; enabled: boolean }
+    /** Replied to with a `traceExported` event carrying the same request ID */
+    | { type: "exportTrace"; requestId: number }
+    /** Starts counting executed instructions afresh, or stops counting and keeps the counts */
+    | { type: "setProfiling"; enabled: boolean }
+    /** Replied to with a `profiled` event carrying the same request ID */
+    | { type: "getProfile"; requestId: number }
+    | { type: "debugger"; command: DebuggerCommand };
+
+/**
+ * Everything the page mirrors about the debugger
+ */
+export interface DebuggerStatus {
+    paused: boolean;
+    pauseReason: string | null;
+    breakpoints: number[];
+    conditions: ConditionalBreakpoint[];
+    watchpoints: number[];
+}
+
+/**
+ * Changes since the previous frame event
+ */
+export interface FrameEvent {
+    type: "frame";
+    vWidth: number;
+    vHeight: number;
+    /** Display pixels, as a delta against the previous frame event's */
+    pixels: ByteDelta;
+    /** Memory, as a delta against the previous frame event's */
+    memory: ByteDelta;
+    registers: Chip8Registers;
+    romSize: number;
+    pressedKeys: number[];
+    /** Movie being recorded or played, or null if none */
+    movie: MovieStatus | null;
+    /** Trace recorded since tracing was last enabled, or null if it never was */
+    trace: TraceStatus | null;
+    rewinding: boolean;
+    exited: boolean;
+    /** Fault execution halted on, or null while running */
+    fault: Fault | null;
+}
+
+/**
+ * Events sent from the emulator worker to the page
+ */
+export type EmulatorEvent =
+    | FrameEvent
+    | { type: "soundStart"; duration: number }
+    | { type: "soundStop" }
+    | { type: "audioPattern"; pattern: Uint8Array | null; pitch: number }
+    | { type: "debugger"; status: DebuggerStatus }
+    | { type: "stateSaved"; requestId: number; state: Chip8State }
+    /** `movie` is null if nothing was being recorded */
+    | { type: "movieRecorded"; requestId: number; movie: Movie | null }
+    /** `text` is empty if tracing was never enabled */
+    | { type: "traceExported"; requestId: number; text: string }
+    /** `profile` is null if profiling was never enabled */
+    | { type: "profiled"; requestId: number; profile: Profile | null }
+    | { type: "error"; message: string };
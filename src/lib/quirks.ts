@@ -0,0 +1,92 @@
+/**
+ * Behaviours which differ between CHIP-8 interpreters.
+ *
+ * Each flag is `true` when the interpreter behaves in the way described.
+ */
+export interface Quirks {
+    /** 8XY6/8XYE shift VY and store the result in VX instead of shifting VX in place */
+    shiftUsesVY: boolean;
+    /** FX55/FX65 leave I pointing past the last register transferred */
+    loadStoreIncrementsI: boolean;
+    /** BNNN jumps to XNN + VX instead of NNN + V0 */
+    jumpUsesVX: boolean;
+    /** Sprites are cut off at the screen edges instead of wrapping around */
+    clipSprites: boolean;
+    /** 8XY1/8XY2/8XY3 reset VF to 0 */
+    vfReset: boolean;
+    /** DXYN waits for the next frame, so at most one sprite is drawn per frame */
+    displayWait: boolean;
+    /** Memory ends at 0xFFF, as on 4K machines, instead of extending to XO-CHIP's 0xFFFF */
+    memory4K: boolean;
+}
+
+export type QuirksPreset = "vip" | "chip48" | "schip" | "xochip";
+
+/** Human-readable names of each preset */
+export const QUIRKS_PRESET_NAMES: Record<QuirksPreset, string> = {
+    vip: "COSMAC VIP",
+    chip48: "CHIP-48",
+    schip: "SUPER-CHIP",
+    xochip: "XO-CHIP",
+};
+
+/** Human-readable descriptions of each quirk flag */
+export const QUIRK_DESCRIPTIONS: Record<keyof Quirks, string> = {
+    shiftUsesVY: "Shifts read VY",
+    loadStoreIncrementsI: "Load/store advances I",
+    jumpUsesVX: "BNNN jumps with VX",
+    clipSprites: "Clip sprites at edges",
+    vfReset: "Logic ops reset VF",
+    displayWait: "Wait for display on draw",
+    memory4K: "4K memory",
+};
+
+export const QUIRKS_PRESETS: Record<QuirksPreset, Readonly<Quirks>> = {
+    vip: {
+        shiftUsesVY: true,
+        loadStoreIncrementsI: true,
+        jumpUsesVX: false,
+        clipSprites: true,
+        vfReset: true,
+        displayWait: true,
+        memory4K: true,
+    },
+    chip48: {
+        shiftUsesVY: false,
+        loadStoreIncrementsI: false,
+        jumpUsesVX: true,
+        clipSprites: true,
+        vfReset: false,
+        displayWait: false,
+        memory4K: true,
+    },
+    schip: {
+        shiftUsesVY: false,
+        loadStoreIncrementsI: false,
+        jumpUsesVX: true,
+        clipSprites: true,
+        vfReset: false,
+        displayWait: false,
+        memory4K: true,
+    },
+    xochip: {
+        shiftUsesVY: true,
+        loadStoreIncrementsI: true,
+        jumpUsesVX: false,
+        clipSprites: false,
+        vfReset: false,
+        displayWait: false,
+        memory4K: false,
+    },
+};
+
+export const DEFAULT_QUIRKS_PRESET: QuirksPreset = "vip";
+
+/**
+ * Builds a quirks configuration from a preset
+ * @param preset preset to start from
+ * @param overrides individual flags which replace the preset's values
+ */
+export function resolveQuirks(preset: QuirksPreset, overrides: Partial<Quirks> = {}): Quirks {
+    return { ...QUIRKS_PRESETS[preset], ...overrides };
+}
@@ -0,0 +1,52 @@
+/**
+ * Picks a seed for a `Random` which differs from run to run
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ *
+ * Its whole state is a single 32-bit number, so it can be saved and restored along with
+ * the rest of the machine and the same seed always produces the same sequence.
+ */
+export class Random {
+    private state: number;
+
+    /**
+     * @param seed 32-bit seed; other numbers are truncated to 32 bits
+     */
+    public constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Current state, which `setState()` accepts to continue the same sequence
+     */
+    public getState(): number {
+        return this.state;
+    }
+
+    public setState(state: number) {
+        this.state = state >>> 0;
+    }
+
+    /**
+     * @returns the next number of the sequence, from 0 to 2^32 - 1
+     */
+    public nextUint32(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return (t ^ (t >>> 14)) >>> 0;
+    }
+
+    /**
+     * @returns the next byte of the sequence, from 0 to 255
+     */
+    public nextByte(): number {
+        return this.nextUint32() >>> 24;
+    }
+}
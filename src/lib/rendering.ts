@@ -1,107 +1,95 @@
-import { mat4, vec2, vec3 } from "gl-matrix";
+import { vec3 } from "gl-matrix";
 import vertexShaderUrl from "$lib/shaders/shader.vs.glsl?url";
 import fragmentShaderUrl from "$lib/shaders/shader.fs.glsl?url";
+import crtShaderUrl from "$lib/shaders/crt.fs.glsl?url";
+import { FramebufferDisplay } from "./display";
 
-export class VPixel {
-    // ====================
-    // Static functionality
-    // ====================
-
-    /** Shared vertex array for all VPixels */
-    public static readonly vertices = [
-        0, 1, 0,    // 0: Top-left
-        0, -1, 0,   // 1: Bottom-left
-        1, -1, 0,   // 2: Bottom-right
-        1, 1, 0     // 3: Top-right
-    ];
-
-    /** Shared vertex indices for all VPixels */
-    public static readonly indices = [
-        0, 1, 2,    // Left tri
-        2, 3, 0     // Right tri
-    ];
-
-    public static readonly onColor = vec3.fromValues(1.0, 1.0, 1.0);
-    public static readonly offColor = vec3.fromValues(0.0, 0.0, 0.0);
-
-    private static scale: number = 1.0;
-
+/**
+ * Post-processing applied when presenting the display. Every strength ranges from 0 (off) to 1.
+ */
+export interface DisplayEffects {
     /**
-     * 
-     * @param width width of rendered image in pixels
-     * @param vWidth width of vPixels in display
+     * Fraction of brightness a pixel keeps each frame after being unlit, hiding flicker;
+     * at most `MAX_PHOSPHOR_DECAY`, so unlit pixels always fade out
      */
-    public static calculateScale(width: number, vWidth: number) {
-        VPixel.scale = width / vWidth;
-    }
-
-    // ======================
-    // Instance functionality
-    // ======================
-
-    private position: vec2 = vec2.create();
-    // private scale: number;
-
-    private renderPosition: vec3 = vec3.create();
-
-    public on: boolean = false;
-
-    public constructor(x: number, y: number) {
-        this.position[0] = x;
-        this.position[1] = y;
-        this.calculateRenderPosition();
-    }
-
-    public getPosition(): vec2 {
-        return this.position;
-    }
-
-    public calculateRenderPosition(): void {
-        const x = (this.position[0] * VPixel.scale);
-        const y = (this.position[1] * VPixel.scale) + VPixel.scale;
-        this.renderPosition = [x, y, 0.0];
-    }
-
-    public getModelMat4(): mat4 {
-        const modelMatrix = mat4.create();
-
-        // TODO: Translate
-        mat4.translate(modelMatrix, modelMatrix, this.renderPosition);
-
-        // Scale
-        mat4.scale(modelMatrix, modelMatrix, [VPixel.scale, VPixel.scale, 1.0]);
+    phosphorDecay: number;
+    /** Darkening between VPixel rows */
+    scanlines: number;
+    /** Barrel distortion of a curved CRT */
+    curvature: number;
+    /** Width of the dark grid between VPixels */
+    pixelGap: number;
+}
 
-        return modelMatrix;
-    }
+/** Strongest phosphor persistence; at 1, unlit pixels would never fade */
+export const MAX_PHOSPHOR_DECAY = 0.95;
+
+/** Plain, unprocessed output */
+export const NO_DISPLAY_EFFECTS: Readonly<DisplayEffects> = {
+    phosphorDecay: 0,
+    scanlines: 0,
+    curvature: 0,
+    pixelGap: 0,
+};
+
+/**
+ * Shader program with the uniform locations it uses
+ */
+interface ShaderPass {
+    program: WebGLProgram;
+    uniforms: Record<string, WebGLUniformLocation | null>;
 }
 
-export default class Display {
+/**
+ * Display which presents its framebuffer on a canvas through WebGL2.
+ *
+ * The framebuffer is uploaded as a single-channel texture and drawn in two full-screen
+ * passes: the first maps it through the palette and blends in the fading previous frame,
+ * the second applies the CRT effects. Changes are presented at most once per animation
+ * frame, however many sprites were drawn in between.
+ */
+export default class WebGLDisplay extends FramebufferDisplay {
     /** Fixed display aspect ratio */
     private static readonly ASPECT_RATIO = 2;
 
-    /** Display width in VPixels */
-    public static readonly vWidth = 64;
-    /** Display height in VPixels */
-    public static readonly vHeight = 32;
+    /** Colours for each combination of lit planes: none, first, second, both */
+    public static readonly DEFAULT_PALETTE: ReadonlyArray<vec3> = [
+        vec3.fromValues(0.0, 0.0, 0.0),
+        vec3.fromValues(1.0, 1.0, 1.0),
+        vec3.fromValues(0.67, 0.67, 0.67),
+        vec3.fromValues(0.33, 0.33, 0.33),
+    ];
+
+    /** Brightness below which a fading pixel counts as dark */
+    private static readonly FADE_THRESHOLD = 1 / 255;
 
-    private vPixels: Array<VPixel> = [];
+    /** Colours indexed by VPixel plane bit mask */
+    private palette: Array<vec3> = WebGLDisplay.DEFAULT_PALETTE.map((color) => vec3.clone(color));
+    private effects: DisplayEffects = { ...NO_DISPLAY_EFFECTS };
 
     private canvas: HTMLCanvasElement;
     private gl: WebGL2RenderingContext;
 
-    private shaderProgram: WebGLProgram | null = null;
-    private vao: WebGLVertexArrayObject | null = null;
-    private indexBuffer: WebGLBuffer | null = null;
-    private vertexBuffer: WebGLBuffer | null = null;
+    private palettePass: ShaderPass | null = null;
+    private crtPass: ShaderPass | null = null;
 
-    private projectionUniformLoc: WebGLUniformLocation | null = null;
-    private modelUniformLoc: WebGLUniformLocation | null = null;
-    private colorUniformLoc: WebGLUniformLocation | null = null;
+    private framebufferTexture: WebGLTexture | null = null;
+    /** Palette pass outputs for this and the previous frame, swapped every frame */
+    private persistenceTextures: WebGLTexture[] = [];
+    private persistenceTargets: WebGLFramebuffer[] = [];
+    /** Index of the persistence texture written by the next frame */
+    private persistenceIndex = 0;
+    /** Size the texture storage was last allocated with */
+    private textureWidth = 0;
+    private textureHeight = 0;
 
-    private projectionMatrix: mat4 = mat4.create();
-    private viewMatrix: mat4 = mat4.create();
+    /** Pending animation frame request, or 0 if none */
+    private frameRequest = 0;
+    /** Frames left to present after a change, while unlit pixels fade out */
+    private fadeFramesLeft = 0;
 
     protected constructor(gl: WebGL2RenderingContext, canvas: HTMLCanvasElement) {
+        super();
         this.gl = gl;
         this.canvas = canvas;
 
@@ -111,29 +99,22 @@ export default class Display {
     public resizeViewport() {
         const width = this.canvas.clientWidth;
         this.canvas.width = width;
-        const height = width / Display.ASPECT_RATIO
+        const height = width / WebGLDisplay.ASPECT_RATIO
         this.canvas.height = height;
 
         this.gl.viewport(0, 0, width, height);
         this.gl.scissor(0, 0, width, height);
-        mat4.ortho(this.projectionMatrix, 0, width, height, 0, -1000, 1000);
-        mat4.lookAt(this.viewMatrix, [0, 0, 1], [0, 0, 0], [0, 1, 0]);
 
-        VPixel.calculateScale(width, Display.vWidth);
-        for (const vPixel of this.vPixels) {
-            vPixel.calculateRenderPosition();
-        }
-
-        this.render();
+        this.invalidate();
     }
 
-    public static createForCanvas(canvas: HTMLCanvasElement): Display {
+    public static createForCanvas(canvas: HTMLCanvasElement): WebGLDisplay {
         const gl = canvas.getContext("webgl2", {alpha: false});
         if (!gl) {
             throw Error("Failed to create WebGL2 rendering context");
         }
 
-        return new Display(gl, canvas);
+        return new WebGLDisplay(gl, canvas);
     }
 
     private compileShader(src: string, type: number): WebGLShader {
@@ -155,15 +136,17 @@ export default class Display {
         return shader;
     }
 
-    private async loadShaderProgram() {
-        const vertexShaderSrc = await (await fetch(vertexShaderUrl)).text();
-        const fragmentShaderSrc = await (await fetch(fragmentShaderUrl)).text();
-
-        const shaders = [
-            this.compileShader(vertexShaderSrc, this.gl.VERTEX_SHADER),
-            this.compileShader(fragmentShaderSrc, this.gl.FRAGMENT_SHADER),
-        ];
+    private async fetchShader(url: string, type: number): Promise<WebGLShader> {
+        const src = await (await fetch(url)).text();
+        return this.compileShader(src, type);
+    }
 
+    /**
+     * Links a shader program and looks up its uniforms
+     * @param shaders compiled shaders to link; left for the caller to delete
+     * @param uniformNames uniforms to look up
+     */
+    private linkShaderPass(shaders: WebGLShader[], uniformNames: string[]): ShaderPass {
         const program = this.gl.createProgram();
         if (!program) {
             throw Error("Failed to allocate shader program");
@@ -181,84 +164,141 @@ export default class Display {
             throw Error(errorLog);
         }
 
-        this.shaderProgram = program;
+        for (const shader of shaders) {
+            this.gl.detachShader(program, shader);
+        }
+
+        const uniforms: Record<string, WebGLUniformLocation | null> = {};
+        for (const name of uniformNames) {
+            uniforms[name] = this.gl.getUniformLocation(program, name);
+        }
 
-        shaders.forEach((shader) => {
+        return { program, uniforms };
+    }
+
+    private async loadShaderPrograms() {
+        const [vertexShader, fragmentShader, crtShader] = await Promise.all([
+            this.fetchShader(vertexShaderUrl, this.gl.VERTEX_SHADER),
+            this.fetchShader(fragmentShaderUrl, this.gl.FRAGMENT_SHADER),
+            this.fetchShader(crtShaderUrl, this.gl.FRAGMENT_SHADER),
+        ]);
+
+        this.palettePass = this.linkShaderPass(
+            [vertexShader, fragmentShader],
+            ["framebuffer", "palette", "previous", "decay"]
+        );
+        this.crtPass = this.linkShaderPass(
+            [vertexShader, crtShader],
+            ["image", "resolution", "scanlines", "curvature", "pixelGap"]
+        );
+
+        [vertexShader, fragmentShader, crtShader].forEach((shader) => {
             this.gl.deleteShader(shader);
         });
-
-        // Get uniform locations
-        this.projectionUniformLoc = this.gl.getUniformLocation(this.shaderProgram, "projection");
-        this.modelUniformLoc = this.gl.getUniformLocation(this.shaderProgram, "model");
-        this.colorUniformLoc = this.gl.getUniformLocation(this.shaderProgram, "color");
     }
 
-    private loadVPixelRenderData() {
-        this.vao = this.gl.createVertexArray();
-        if (!this.vao) {
-            throw Error("Failed to create Vertex Array Object");
+    private createTexture(): WebGLTexture {
+        const texture = this.gl.createTexture();
+        if (!texture) {
+            throw Error("Failed to create texture");
         }
 
-        this.gl.bindVertexArray(this.vao);
-        {
-            this.indexBuffer = this.gl.createBuffer();
-            this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
-            this.gl.bufferData(this.gl.ELEMENT_ARRAY_BUFFER, new Uint32Array(VPixel.indices), this.gl.STATIC_DRAW);
-            this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, null);
-
-            this.vertexBuffer = this.gl.createBuffer();
-            this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.vertexBuffer);
-            {
-                this.gl.bufferData(this.gl.ARRAY_BUFFER, new Float32Array(VPixel.vertices), this.gl.STATIC_DRAW);
-                // Vertices
-                this.gl.vertexAttribPointer(0, 3, this.gl.FLOAT, false, 12, 0);
+        this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+        // One texel per VPixel, so never blend neighbours (integer textures cannot be filtered anyway)
+        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.NEAREST);
+        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.NEAREST);
+        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_S, this.gl.CLAMP_TO_EDGE);
+        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_T, this.gl.CLAMP_TO_EDGE);
+        this.gl.bindTexture(this.gl.TEXTURE_2D, null);
+
+        return texture;
+    }
+
+    private createRenderTargets() {
+        this.framebufferTexture = this.createTexture();
+
+        for (let n = 0; n < 2; n++) {
+            const texture = this.createTexture();
+            const target = this.gl.createFramebuffer();
+            if (!target) {
+                throw Error("Failed to create render target");
             }
-            this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+
+            this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, target);
+            this.gl.framebufferTexture2D(this.gl.FRAMEBUFFER, this.gl.COLOR_ATTACHMENT0, this.gl.TEXTURE_2D, texture, 0);
+            this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
+
+            this.persistenceTextures.push(texture);
+            this.persistenceTargets.push(target);
         }
-        this.gl.bindVertexArray(null);
     }
 
-    private makeVPixelArray() {
-        VPixel.calculateScale(this.canvas.width, Display.vWidth);
-        for (let row = 0; row < Display.vHeight; row++) {
-            for (let col = 0; col < Display.vWidth; col++) {
-                const vPixel = new VPixel(col, row);
-                this.vPixels.push(vPixel);
-            }
+    /**
+     * Reallocates every texture at the current resolution, forgetting faded pixels
+     */
+    private allocateTextures() {
+        this.gl.bindTexture(this.gl.TEXTURE_2D, this.framebufferTexture);
+        this.gl.texImage2D(
+            this.gl.TEXTURE_2D, 0, this.gl.R8UI, this.vWidth, this.vHeight, 0,
+            this.gl.RED_INTEGER, this.gl.UNSIGNED_BYTE, null
+        );
+
+        for (const texture of this.persistenceTextures) {
+            this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+            this.gl.texImage2D(
+                this.gl.TEXTURE_2D, 0, this.gl.RGBA8, this.vWidth, this.vHeight, 0,
+                this.gl.RGBA, this.gl.UNSIGNED_BYTE, null
+            );
         }
+        this.gl.bindTexture(this.gl.TEXTURE_2D, null);
+
+        this.textureWidth = this.vWidth;
+        this.textureHeight = this.vHeight;
     }
 
     public async initialize() {
-        await this.loadShaderProgram();
-        this.loadVPixelRenderData();
-        this.makeVPixelArray();
+        await this.loadShaderPrograms();
+        this.createRenderTargets();
 
         window.addEventListener('resize', (_ev) => {
             this.resizeViewport();
         });
     }
 
+    public override setResolution(vWidth: number, vHeight: number) {
+        super.setResolution(vWidth, vHeight);
+
+        this.invalidate();
+    }
+
     /**
-     * Toggles a VPixel
-     * @param x x-coordinate of pixel to toggle
-     * @param y y-coordinate of pixel to toggle
-     * @returns true if the pixel was toggled from 'on' to 'off'; false otherwise
+     * Changes the colours used for each combination of lit planes
+     * @param palette four colours: unlit, first plane, second plane, both planes
      */
-    public toggleVPixel(x: number, y: number): boolean {
-        const index = (y * Display.vWidth) + x;
-        const vPixel = this.vPixels[index];
+    public setPalette(palette: ReadonlyArray<vec3>) {
+        if (palette.length !== WebGLDisplay.DEFAULT_PALETTE.length) {
+            throw Error(`Palette must have ${WebGLDisplay.DEFAULT_PALETTE.length} colours`);
+        }
 
-        vPixel.on = !vPixel.on;
+        this.palette = palette.map((color) => vec3.clone(color));
+        this.invalidate();
+    }
 
-        return !vPixel.on;
+    /**
+     * Changes the post-processing applied when presenting
+     * @param effects new effect strengths; phosphor decay is clamped to `MAX_PHOSPHOR_DECAY`
+     */
+    public setEffects(effects: DisplayEffects) {
+        this.effects = { ...effects, phosphorDecay: Math.min(Math.max(effects.phosphorDecay, 0), MAX_PHOSPHOR_DECAY) };
+        this.invalidate();
     }
 
     /**
      * Toggles vPixels in a checkerboard pattern
      */
     public showTestPattern() {
-        for (let row = 0; row < Display.vHeight; row++) {
-            for (let col = 0; col < Display.vWidth; col++) {
+        for (let row = 0; row < this.vHeight; row++) {
+            for (let col = 0; col < this.vWidth; col++) {
                 if (row % 2 === 0) {
                     if (col % 2 === 0) {
                         this.toggleVPixel(col, row);
@@ -270,49 +310,103 @@ export default class Display {
                 }
             }
         }
+
+        this.invalidate();
     }
 
     /**
-     * Clears the virtual display
+     * Schedules the display to be presented on the next animation frame
      */
-    public clear() {
-        for (const vPixel of this.vPixels) {
-            vPixel.on = false;
+    public override invalidate() {
+        // Keep presenting until the previous contents have faded out
+        const decay = this.effects.phosphorDecay;
+        this.fadeFramesLeft = decay > 0
+            ? Math.ceil(Math.log(WebGLDisplay.FADE_THRESHOLD) / Math.log(decay))
+            : 0;
+
+        this.requestFrame();
+    }
+
+    private requestFrame() {
+        if (this.frameRequest !== 0) {
+            return;
         }
 
-        this.render();
+        this.frameRequest = requestAnimationFrame(() => {
+            this.frameRequest = 0;
+            this.render();
+
+            if (this.fadeFramesLeft > 0) {
+                this.fadeFramesLeft -= 1;
+                this.requestFrame();
+            }
+        });
     }
 
+    /**
+     * Uploads the framebuffer and presents it immediately
+     */
     public render() {
-        if (!this.shaderProgram) {
+        if (!this.palettePass || !this.crtPass || !this.framebufferTexture) {
             return;
         }
 
+        if (this.textureWidth !== this.vWidth || this.textureHeight !== this.vHeight) {
+            this.allocateTextures();
+        }
+
+        this.gl.bindTexture(this.gl.TEXTURE_2D, this.framebufferTexture);
+        this.gl.pixelStorei(this.gl.UNPACK_ALIGNMENT, 1);
+        this.gl.texSubImage2D(
+            this.gl.TEXTURE_2D, 0, 0, 0, this.vWidth, this.vHeight,
+            this.gl.RED_INTEGER, this.gl.UNSIGNED_BYTE, this.pixels
+        );
+
+        const output = this.persistenceIndex;
+        const previous = 1 - output;
+        this.persistenceIndex = previous;
+
+        // Palette and persistence pass, one fragment per VPixel
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.persistenceTargets[output]);
+        this.gl.viewport(0, 0, this.vWidth, this.vHeight);
+        this.gl.useProgram(this.palettePass.program);
+        {
+            const uniforms = this.palettePass.uniforms;
+            this.gl.activeTexture(this.gl.TEXTURE0);
+            this.gl.bindTexture(this.gl.TEXTURE_2D, this.framebufferTexture);
+            this.gl.uniform1i(uniforms.framebuffer, 0);
+            this.gl.activeTexture(this.gl.TEXTURE1);
+            this.gl.bindTexture(this.gl.TEXTURE_2D, this.persistenceTextures[previous]);
+            this.gl.uniform1i(uniforms.previous, 1);
+
+            this.gl.uniform3fv(uniforms.palette, new Float32Array(this.palette.flatMap((color) => [...color])));
+            this.gl.uniform1f(uniforms.decay, this.effects.phosphorDecay);
+
+            this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
+        }
+
+        // CRT pass onto the canvas
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
+        this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
         this.gl.clearColor(1.0, 0.0, 1.0, 1.0);
         this.gl.clear(this.gl.COLOR_BUFFER_BIT);
-
-        this.gl.useProgram(this.shaderProgram);
+        this.gl.useProgram(this.crtPass.program);
         {
-            this.gl.uniformMatrix4fv(this.projectionUniformLoc, false, new Float32Array(this.projectionMatrix));
-            this.gl.bindVertexArray(this.vao);
-            {
-                this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
-                this.gl.enableVertexAttribArray(0);
-                for (const vPixel of this.vPixels) {
-                    const color = vPixel.on ? VPixel.onColor : VPixel.offColor;
-                    const modelMat4 = vPixel.getModelMat4();
-
-                    this.gl.uniformMatrix4fv(this.modelUniformLoc, false, new Float32Array(modelMat4));
-                    this.gl.uniform3fv(this.colorUniformLoc, new Float32Array(color));
-
-                    this.gl.drawElements(this.gl.TRIANGLES, VPixel.indices.length, this.gl.UNSIGNED_INT, 0);
-                }
-                this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, null);
-            }
-            this.gl.bindVertexArray(null);
+            const uniforms = this.crtPass.uniforms;
+            this.gl.activeTexture(this.gl.TEXTURE0);
+            this.gl.bindTexture(this.gl.TEXTURE_2D, this.persistenceTextures[output]);
+            this.gl.uniform1i(uniforms.image, 0);
+
+            this.gl.uniform2f(uniforms.resolution, this.vWidth, this.vHeight);
+            this.gl.uniform1f(uniforms.scanlines, this.effects.scanlines);
+            this.gl.uniform1f(uniforms.curvature, this.effects.curvature);
+            this.gl.uniform1f(uniforms.pixelGap, this.effects.pixelGap);
+
+            this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
         }
         this.gl.useProgram(null);
+        this.gl.bindTexture(this.gl.TEXTURE_2D, null);
 
         this.gl.flush();
     }
-}
\ No newline at end of file
+}
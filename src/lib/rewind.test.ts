@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import Chip8 from './emulator';
+import { FramebufferDisplay } from './display';
+import { RewindBuffer } from './rewind';
+
+describe('RewindBuffer', () => {
+	function captureStates(count: number) {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		// V0 += 1; I = font '0'; draw at (V0, V0); loop
+		chip8.loadROM(new Uint8Array([0x70, 0x01, 0xa0, 0x00, 0xd0, 0x05, 0x12, 0x00]));
+
+		const states = [];
+		for (let frame = 0; frame < count; frame++) {
+			for (let i = 0; i < 4; i++) {
+				chip8.step();
+			}
+			states.push(chip8.saveState());
+		}
+		return states;
+	}
+
+	it('returns states newest first', () => {
+		const states = captureStates(5);
+		const buffer = new RewindBuffer(10);
+		states.forEach((state) => buffer.push(state));
+
+		for (let idx = states.length - 1; idx >= 0; idx--) {
+			expect(buffer.pop()).toEqual(states[idx]);
+		}
+		expect(buffer.pop()).toBeUndefined();
+	});
+
+	it('drops the oldest states when full', () => {
+		const states = captureStates(6);
+		const buffer = new RewindBuffer(4);
+		states.forEach((state) => buffer.push(state));
+
+		expect(buffer.length).toBe(4);
+		const popped = [];
+		for (let state = buffer.pop(); state; state = buffer.pop()) {
+			popped.push(state);
+		}
+		expect(popped).toEqual(states.slice(2).reverse());
+	});
+});
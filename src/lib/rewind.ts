@@ -0,0 +1,114 @@
+import type { Chip8State } from "./emulator";
+import { applyBytes, diffBytes, type ByteDelta } from "./delta";
+
+/**
+ * Everything needed to turn a state back into the one captured before it
+ */
+interface StateDelta {
+    /** Small fields of the older state, stored whole */
+    base: Omit<Chip8State, "memory" | "display">;
+    memory: ByteDelta;
+    vWidth: number;
+    vHeight: number;
+    pixels: ByteDelta;
+}
+
+/**
+ * Bounded history of machine states, newest first.
+ *
+ * Only the newest state is kept whole; each older state is stored as a delta against
+ * the state captured after it, so a frame in which little changed costs little memory.
+ */
+export class RewindBuffer {
+    /** Maximum number of states kept, including the newest */
+    public readonly capacity: number;
+
+    private latest: Chip8State | null = null;
+    /** Ring of deltas; `deltas[head]` restores the state before `latest` */
+    private deltas: Array<StateDelta | undefined>;
+    private head = 0;
+    private deltaCount = 0;
+
+    /**
+     * @param capacity maximum number of states to keep
+     */
+    public constructor(capacity: number) {
+        if (capacity < 1) {
+            throw Error("Rewind buffer capacity must be at least 1");
+        }
+
+        this.capacity = capacity;
+        this.deltas = new Array(capacity - 1);
+    }
+
+    /** Number of states currently held */
+    public get length(): number {
+        return this.latest ? this.deltaCount + 1 : 0;
+    }
+
+    /**
+     * Records a new state, dropping the oldest one if the buffer is full
+     * @param state state to record; ownership passes to the buffer
+     */
+    public push(state: Chip8State) {
+        if (this.latest && this.deltas.length > 0) {
+            const { memory, display, ...base } = this.latest;
+            const delta: StateDelta = {
+                base,
+                memory: diffBytes(state.memory, memory),
+                vWidth: display.vWidth,
+                vHeight: display.vHeight,
+                pixels: diffBytes(state.display.pixels, display.pixels),
+            };
+
+            this.head = (this.head + 1) % this.deltas.length;
+            this.deltas[this.head] = delta;
+            this.deltaCount = Math.min(this.deltaCount + 1, this.deltas.length);
+        }
+
+        this.latest = state;
+    }
+
+    /**
+     * Removes and returns the newest state
+     * @returns the newest state, or undefined if the buffer is empty
+     */
+    public pop(): Chip8State | undefined {
+        const popped = this.latest;
+        if (!popped) {
+            return undefined;
+        }
+
+        if (this.deltaCount === 0) {
+            this.latest = null;
+            return popped;
+        }
+
+        const delta = this.deltas[this.head] as StateDelta;
+        this.deltas[this.head] = undefined;
+        this.head = (this.head - 1 + this.deltas.length) % this.deltas.length;
+        this.deltaCount -= 1;
+
+        this.latest = {
+            ...delta.base,
+            memory: applyBytes(popped.memory, delta.memory),
+            display: {
+                vWidth: delta.vWidth,
+                vHeight: delta.vHeight,
+                pixels: applyBytes(popped.display.pixels, delta.pixels),
+            },
+        };
+
+        return popped;
+    }
+
+    /**
+     * Discards every recorded state
+     */
+    public clear() {
+        this.latest = null;
+        this.deltas.fill(undefined);
+        this.head = 0;
+        this.deltaCount = 0;
+    }
+}
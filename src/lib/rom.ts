@@ -0,0 +1,9 @@
+/**
+ * Identifies a ROM by the SHA-1 hash of its contents
+ * @param rom binary ROM data
+ * @returns lowercase hex digest
+ */
+export async function hashROM(rom: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-1", rom);
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
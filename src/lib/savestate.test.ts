@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import Chip8 from './emulator';
+import { FramebufferDisplay } from './display';
+import { exportSlot, importSlot, type SaveSlot } from './savestate';
+
+describe('save state files', () => {
+	it('round-trips a slot through JSON', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		chip8.loadROM(new Uint8Array([0x60, 0x2a, 0xa0, 0x00, 0xd0, 0x05]));
+		chip8.step();
+		chip8.step();
+		chip8.step();
+
+		const slot: SaveSlot = {
+			romHash: 'abc123',
+			slot: 2,
+			name: 'Boss fight',
+			savedAt: 1700000000000,
+			state: chip8.saveState()
+		};
+		const restored = importSlot(exportSlot(slot));
+
+		expect(restored).toEqual(slot);
+		expect(restored.state.memory).toBeInstanceOf(Uint8Array);
+		expect(restored.state.stack).toBeInstanceOf(Uint16Array);
+	});
+
+	it('rejects files in another format', () => {
+		expect(() => importSlot('{"state": {}}')).toThrowError(/save state/);
+	});
+
+	it('rejects files without a state, or with its memory or registers missing', () => {
+		const chip8 = new Chip8(new FramebufferDisplay());
+		const text = exportSlot({ romHash: 'abc123', slot: 0, name: 'Slot 1', savedAt: 0, state: chip8.saveState() });
+		const withState = (change: (state: Record<string, unknown>) => void) => {
+			const parsed = JSON.parse(text);
+			change(parsed.state);
+			return JSON.stringify(parsed);
+		};
+		const nullState = JSON.parse(text);
+		nullState.state = null;
+
+		expect(() => importSlot(JSON.stringify(nullState))).toThrowError(/save state/);
+		expect(() => importSlot(withState((state) => delete state.version))).toThrowError(/Save state/);
+		expect(() => importSlot(withState((state) => delete state.memory))).toThrowError(/Save state/);
+		expect(() => importSlot(withState((state) => (state.pc = null)))).toThrowError(/Save state/);
+	});
+});
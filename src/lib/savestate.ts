@@ -0,0 +1,138 @@
+import type { Chip8State } from "./emulator";
+import { openDatabase, requestResult, SAVE_STATES_STORE } from "./database";
+
+/** Number of save slots offered per ROM */
+export const SLOT_COUNT = 4;
+
+/** Identifies exported save state files */
+const FILE_FORMAT = "chippy-state";
+
+/**
+ * A save state stored for a ROM
+ */
+export interface SaveSlot {
+    /** SHA-1 hash of the ROM the state was taken from */
+    romHash: string;
+    /** Slot number, from 0 to `SLOT_COUNT - 1` */
+    slot: number;
+    /** User-given name of the slot */
+    name: string;
+    /** Time the state was saved, in milliseconds since the epoch */
+    savedAt: number;
+    state: Chip8State;
+}
+
+/**
+ * Stores a save state, replacing whatever was in its slot
+ * @param slot save state to store
+ */
+export async function writeSlot(slot: SaveSlot): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(SAVE_STATES_STORE, "readwrite").objectStore(SAVE_STATES_STORE);
+    await requestResult(store.put(slot));
+}
+
+/**
+ * Reads a single save state
+ * @param romHash hash of the ROM the state belongs to
+ * @param slot slot number
+ * @returns the save state, or undefined if the slot is empty
+ */
+export async function readSlot(romHash: string, slot: number): Promise<SaveSlot | undefined> {
+    const db = await openDatabase();
+    const store = db.transaction(SAVE_STATES_STORE, "readonly").objectStore(SAVE_STATES_STORE);
+    return await requestResult(store.get([romHash, slot]) as IDBRequest<SaveSlot | undefined>);
+}
+
+/**
+ * Reads every save state of a ROM
+ * @param romHash hash of the ROM
+ * @returns filled slots, ordered by slot number
+ */
+export async function listSlots(romHash: string): Promise<SaveSlot[]> {
+    const db = await openDatabase();
+    const store = db.transaction(SAVE_STATES_STORE, "readonly").objectStore(SAVE_STATES_STORE);
+    const slots = await requestResult(store.index("romHash").getAll(romHash) as IDBRequest<SaveSlot[]>);
+    return slots.sort((a, b) => a.slot - b.slot);
+}
+
+/**
+ * Empties a save slot
+ * @param romHash hash of the ROM the state belongs to
+ * @param slot slot number
+ */
+export async function deleteSlot(romHash: string, slot: number): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(SAVE_STATES_STORE, "readwrite").objectStore(SAVE_STATES_STORE);
+    await requestResult(store.delete([romHash, slot]));
+}
+
+function encodeBytes(bytes: Uint8Array): string {
+    let binary = "";
+    // Chunked to stay below the argument limit of String.fromCharCode
+    for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function decodeBytes(encoded: string): Uint8Array {
+    const binary = atob(encoded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * Serializes a save state to JSON text, for export to a file
+ * @param slot save state to serialize
+ */
+export function exportSlot(slot: SaveSlot): string {
+    return JSON.stringify({ format: FILE_FORMAT, ...slot }, (_key, value) => {
+        if (value instanceof Uint8Array) {
+            return { $u8: encodeBytes(value) };
+        }
+        if (value instanceof Uint16Array) {
+            return { $u16: Array.from(value) };
+        }
+        return value;
+    });
+}
+
+/**
+ * Parses a save state exported by `exportSlot()`
+ * @param text JSON text of the save state file
+ */
+export function importSlot(text: string): SaveSlot {
+    const parsed = JSON.parse(text, (_key, value) => {
+        if (value !== null && typeof value === "object") {
+            if (typeof value.$u8 === "string") {
+                return decodeBytes(value.$u8);
+            }
+            if (Array.isArray(value.$u16)) {
+                return Uint16Array.from(value.$u16);
+            }
+        }
+        return value;
+    });
+
+    if (parsed?.format !== FILE_FORMAT || typeof parsed.state !== "object" || parsed.state === null) {
+        throw Error("Not a save state file");
+    }
+
+    const { version, memory, v, stack, pc, i, sp } = parsed.state;
+    if (
+        typeof version !== "number" ||
+        !(memory instanceof Uint8Array) ||
+        !(v instanceof Uint8Array) ||
+        !(stack instanceof Uint16Array) ||
+        [pc, i, sp].some((register) => !Number.isInteger(register))
+    ) {
+        throw Error("Save state is missing its memory or registers");
+    }
+
+    const { romHash, slot, name, savedAt, state } = parsed;
+    return { romHash, slot, name, savedAt, state };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import Chip8 from './emulator';
+import { FramebufferDisplay } from './display';
+import { FrameScheduler, UNCAPPED, type FrameSource } from './scheduler';
+
+/**
+ * Frame source which only refreshes when told to
+ */
+class ManualFrames implements FrameSource {
+	public time = 0;
+	private callback: ((time: number) => void) | null = null;
+
+	public request(callback: (time: number) => void): number {
+		this.callback = callback;
+		return 1;
+	}
+
+	public cancel() {
+		this.callback = null;
+	}
+
+	public now(): number {
+		// Every query takes a millisecond, so uncapped runs finish
+		this.time += 1;
+		return this.time;
+	}
+
+	/**
+	 * Refreshes once, the given time after the previous refresh
+	 */
+	public refresh(elapsedMs: number) {
+		this.time += elapsedMs;
+		this.callback?.(this.time);
+	}
+}
+
+/** Program which adds 1 to V1 every two instructions */
+function counterROM(): Uint8Array {
+	// 0x200: V1 += 1; jump 0x200
+	return new Uint8Array([0x71, 0x01, 0x12, 0x00]);
+}
+
+function setup() {
+	const chip8 = new Chip8(new FramebufferDisplay());
+	chip8.loadROM(counterROM());
+	const frames = new ManualFrames();
+	const scheduler = new FrameScheduler(chip8, frames);
+	scheduler.setCyclesPerFrame(4);
+	scheduler.start();
+	// The first refresh only records the time
+	frames.refresh(0);
+	return { chip8, frames, scheduler };
+}
+
+describe('FrameScheduler', () => {
+	it('runs one emulated frame per 60th of a second', () => {
+		const { chip8, frames } = setup();
+
+		frames.refresh(1000 / 60);
+		// Half a frame carries over to the next refresh
+		frames.refresh(1000 / 120);
+		expect(chip8.inspect().v[1]).toBe(2);
+
+		frames.refresh(1000 / 120);
+		expect(chip8.inspect().v[1]).toBe(4);
+	});
+
+	it('fast-forwards by the speed multiplier', () => {
+		const { chip8, frames, scheduler } = setup();
+		scheduler.setSpeed(4);
+
+		frames.refresh(1000 / 60);
+		expect(chip8.inspect().v[1]).toBe(8);
+	});
+
+	it('runs until the time budget is spent when uncapped', () => {
+		const { chip8, frames, scheduler } = setup();
+		scheduler.setSpeed(UNCAPPED);
+
+		frames.refresh(1000 / 60);
+		expect(chip8.inspect().v[1]).toBeGreaterThan(2);
+	});
+
+	it('advances single frames while paused', () => {
+		const { chip8, frames, scheduler } = setup();
+		scheduler.pause();
+
+		frames.refresh(1000 / 60);
+		expect(chip8.inspect().v[1]).toBe(0);
+
+		scheduler.advanceFrame();
+		expect(chip8.inspect().v[1]).toBe(2);
+		expect(scheduler.isPaused()).toBe(true);
+	});
+});
@@ -0,0 +1,174 @@
+import Chip8 from "./emulator";
+import { TIMER_HZ } from "./clock";
+
+/** Instructions executed per frame unless configured otherwise */
+export const DEFAULT_CYCLES_PER_FRAME = Math.round(Chip8.DEFAULT_IPS / TIMER_HZ);
+
+/** Speed multiplier which runs as many frames as fit in each animation frame */
+export const UNCAPPED = Infinity;
+
+/** Speed multipliers offered for fast-forwarding */
+export const SPEEDS: ReadonlyArray<number> = [1, 2, 4, 8, 16, UNCAPPED];
+
+/**
+ * Source of display refreshes which pace emulation
+ */
+export interface FrameSource {
+    /**
+     * Schedules a callback for the next refresh
+     * @returns handle to cancel the request with
+     */
+    request(callback: (time: number) => void): number;
+    cancel(handle: number): void;
+    /** Current time in milliseconds */
+    now(): number;
+}
+
+/** Frame source backed by `requestAnimationFrame` */
+const ANIMATION_FRAMES: FrameSource = {
+    request: (callback) => requestAnimationFrame(callback),
+    cancel: (handle) => cancelAnimationFrame(handle),
+    now: () => performance.now(),
+};
+
+/**
+ * Runs a Chip8 at 60 emulated frames per second of real time, however fast the display refreshes.
+ *
+ * Each emulated frame executes a fixed number of instructions followed by one timer tick,
+ * so execution speed and timers stay in step.
+ */
+export class FrameScheduler {
+    /** Longest gap between refreshes that is caught up on; longer gaps (such as a hidden tab) are dropped */
+    private static readonly MAX_ELAPSED_MS = 250;
+    /** Time spent per refresh on emulation when uncapped */
+    private static readonly UNCAPPED_BUDGET_MS = 12;
+    /** Tolerance for rounding error when counting owed frames */
+    private static readonly FRAME_EPSILON = 1e-6;
+
+    private chip8: Chip8;
+    private frames: FrameSource;
+
+    private cyclesPerFrame = DEFAULT_CYCLES_PER_FRAME;
+    private speed = 1;
+    private paused = false;
+
+    /** Pending refresh request, or null when stopped */
+    private handle: number | null = null;
+    private lastTime: number | null = null;
+    /** Emulated frames owed, including any fraction carried over */
+    private owedFrames = 0;
+
+    /**
+     * @param chip8 emulator to run; it should use the default manual clock
+     * @param frames source of display refreshes
+     */
+    public constructor(chip8: Chip8, frames: FrameSource = ANIMATION_FRAMES) {
+        this.chip8 = chip8;
+        this.frames = frames;
+    }
+
+    /**
+     * Starts running on every refresh. Does nothing if already started.
+     */
+    public start() {
+        if (this.handle !== null) {
+            return;
+        }
+
+        this.lastTime = null;
+        this.owedFrames = 0;
+        this.handle = this.frames.request((time) => this.onRefresh(time));
+    }
+
+    /**
+     * Stops running until started again
+     */
+    public stop() {
+        if (this.handle !== null) {
+            this.frames.cancel(this.handle);
+            this.handle = null;
+        }
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * Stops emulating frames while leaving the scheduler started
+     */
+    public pause() {
+        this.paused = true;
+    }
+
+    public resume() {
+        this.paused = false;
+        // Don't catch up on the time spent paused
+        this.lastTime = null;
+    }
+
+    /**
+     * Pauses, then emulates exactly one frame
+     */
+    public advanceFrame() {
+        this.pause();
+        this.chip8.runFrame(this.cyclesPerFrame);
+    }
+
+    public getSpeed(): number {
+        return this.speed;
+    }
+
+    /**
+     * Changes the speed multiplier
+     * @param speed emulated frames per 60 Hz real-time frame, or `UNCAPPED`
+     */
+    public setSpeed(speed: number) {
+        if (!(speed > 0)) {
+            throw Error(`Invalid speed: ${speed}`);
+        }
+
+        this.speed = speed;
+        this.owedFrames = 0;
+    }
+
+    public getCyclesPerFrame(): number {
+        return this.cyclesPerFrame;
+    }
+
+    /**
+     * Changes the number of instructions executed per emulated frame
+     * @param cycles instructions per frame
+     */
+    public setCyclesPerFrame(cycles: number) {
+        if (!Number.isInteger(cycles) || cycles < 1) {
+            throw Error(`Invalid cycles per frame: ${cycles}`);
+        }
+
+        this.cyclesPerFrame = cycles;
+    }
+
+    private onRefresh(time: number) {
+        this.handle = this.frames.request((nextTime) => this.onRefresh(nextTime));
+
+        const elapsed = this.lastTime === null ? 0 : Math.min(time - this.lastTime, FrameScheduler.MAX_ELAPSED_MS);
+        this.lastTime = time;
+        if (this.paused) {
+            return;
+        }
+
+        if (this.speed === UNCAPPED) {
+            const deadline = this.frames.now() + FrameScheduler.UNCAPPED_BUDGET_MS;
+            do {
+                this.chip8.runFrame(this.cyclesPerFrame);
+            } while (this.frames.now() < deadline);
+            return;
+        }
+
+        this.owedFrames += (elapsed * TIMER_HZ * this.speed) / 1000;
+        while (this.owedFrames >= 1 - FrameScheduler.FRAME_EPSILON) {
+            this.chip8.runFrame(this.cyclesPerFrame);
+            this.owedFrames -= 1;
+        }
+    }
+}
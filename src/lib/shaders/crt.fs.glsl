@@ -0,0 +1,45 @@
+#version 300 es
+
+precision mediump float;
+
+// Output of the persistence pass, one texel per VPixel with row 0 at the bottom
+uniform sampler2D image;
+// Display size in VPixels
+uniform vec2 resolution;
+// Strength of each effect, from 0 (off) to 1
+uniform float scanlines;
+uniform float curvature;
+uniform float pixelGap;
+
+in vec2 screenCoord;
+
+out vec4 fragColor;
+
+const float PI = 3.14159265;
+
+void main() {
+    vec2 uv = vec2(screenCoord.x, 1.0 - screenCoord.y);
+
+    // Barrel distortion, blacking out whatever falls outside the tube
+    vec2 centered = (uv * 2.0) - 1.0;
+    centered *= 1.0 + (curvature * 0.25 * dot(centered.yx, centered.yx));
+    uv = (centered * 0.5) + 0.5;
+    if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) {
+        fragColor = vec4(0.0, 0.0, 0.0, 1.0);
+        return;
+    }
+
+    vec3 color = texture(image, uv).rgb;
+    vec2 cell = fract(uv * resolution);
+
+    // Dark grid lines between VPixels, up to a quarter of a VPixel wide
+    vec2 edge = min(cell, 1.0 - cell);
+    if (any(lessThan(edge, vec2(pixelGap * 0.125)))) {
+        color *= 0.4;
+    }
+
+    // Rows darken towards their top and bottom edges
+    color *= mix(1.0, sin(cell.y * PI), scanlines);
+
+    fragColor = vec4(color, 1.0);
+}
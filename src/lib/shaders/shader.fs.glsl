@@ -1,11 +1,28 @@
 #version 300 es
 
-precision lowp float;
+precision mediump float;
+precision mediump usampler2D;
 
-in vec3 vertexColor;
+// One texel per VPixel, holding its plane bit mask
+uniform usampler2D framebuffer;
+// Colours indexed by plane bit mask
+uniform vec3 palette[4];
+// Output of this pass on the previous frame
+uniform sampler2D previous;
+// Fraction of the previous frame's brightness kept; 0 disables persistence
+uniform float decay;
+
+in vec2 screenCoord;
 
 out vec4 fragColor;
 
 void main() {
-    fragColor = vec4(vertexColor, 1.0);
+    ivec2 size = textureSize(framebuffer, 0);
+    ivec2 texel = min(ivec2(screenCoord * vec2(size)), size - 1);
+    uint planes = texelFetch(framebuffer, texel, 0).r;
+    vec3 color = palette[planes & 3u];
+
+    // Phosphor persistence: lit pixels fade out instead of vanishing at once
+    vec3 faded = texelFetch(previous, ivec2(gl_FragCoord.xy), 0).rgb * decay;
+    fragColor = vec4(max(color, faded), 1.0);
 }
@@ -1,16 +1,11 @@
 #version 300 es
 
-layout (location=0) in vec3 position;
-
-uniform mat4 projection;
-uniform mat4 model;
-uniform mat4 view;
-
-uniform vec3 color;
-
-out vec3 vertexColor;
+out vec2 screenCoord;
 
 void main() {
-    gl_Position = projection * model * vec4(position, 1.0);
-    vertexColor = color;
-}
\ No newline at end of file
+    // Full-screen quad drawn as a 4-vertex triangle strip, with no vertex buffers
+    vec2 corner = vec2(float(gl_VertexID & 1), float((gl_VertexID >> 1) & 1));
+    // Row 0 of the framebuffer is the top of the screen
+    screenCoord = vec2(corner.x, 1.0 - corner.y);
+    gl_Position = vec4((corner * 2.0) - 1.0, 0.0, 1.0);
+}
@@ -0,0 +1,27 @@
+import Chip8, { type Chip8Options } from './emulator';
+import { FramebufferDisplay } from './display';
+
+/**
+ * Builds a ROM from 16-bit instruction words
+ */
+export function rom(...words: number[]): Uint8Array {
+	return new Uint8Array(words.flatMap((word) => [word >> 8, word & 0xff]));
+}
+
+/**
+ * Creates an emulator drawing to a framebuffer, with a program loaded
+ */
+export function load(program: Uint8Array, options: Chip8Options = {}): Chip8 {
+	const chip8 = new Chip8(new FramebufferDisplay(), options);
+	chip8.loadROM(program);
+	return chip8;
+}
+
+/**
+ * Executes a number of instructions
+ */
+export function run(chip8: Chip8, steps: number) {
+	for (let i = 0; i < steps; i++) {
+		chip8.step();
+	}
+}
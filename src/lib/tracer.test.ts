@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import Debugger from './debugger';
+import { Tracer, diffTraces, exportTrace, formatTraceEntry, parseTrace, type TraceEntry } from './tracer';
+import { load, rom, run } from './test_helpers';
+
+// V0 = 5; V1 = 0xFF; V0 += V1; I = 0xF00; save V0 and V1; spin
+const PROGRAM = rom(0x6005, 0x61ff, 0x8014, 0xaf00, 0xf155, 0x120a);
+
+function trace(program: Uint8Array, steps: number, capacity?: number): Tracer {
+	const chip8 = load(program, { seed: 1 });
+	const tracer = new Tracer(chip8, capacity);
+	run(chip8, steps);
+	return tracer;
+}
+
+describe('Tracer', () => {
+	it('records each instruction with the registers and memory it changed', () => {
+		const entries = trace(PROGRAM, 5).getEntries();
+
+		expect(entries.map((entry) => entry.pc)).toEqual([0x200, 0x202, 0x204, 0x206, 0x208]);
+		expect(entries[0]).toEqual({ pc: 0x200, opcode: 0x6005, text: 'v0 := 0x05', registers: { V0: 5 }, memory: [] });
+		expect(entries[2].registers).toEqual({ V0: 4, VF: 1 });
+		expect(entries[3].registers).toEqual({ I: 0xf00 });
+		expect(entries[4].memory).toEqual([
+			{ addr: 0xf00, value: 4 },
+			{ addr: 0xf01, value: 0xff }
+		]);
+	});
+
+	it('keeps only the newest entries', () => {
+		const tracer = trace(PROGRAM, 8, 3);
+
+		expect(tracer.length).toBe(3);
+		expect(tracer.getDropped()).toBe(5);
+		expect(tracer.getEntries().map((entry) => entry.pc)).toEqual([0x20a, 0x20a, 0x20a]);
+
+		tracer.clear();
+		expect(tracer.length).toBe(0);
+		expect(tracer.getDropped()).toBe(0);
+	});
+
+	it('leaves out instructions that did not execute', () => {
+		const chip8 = load(rom(0x6001, 0x6102, 0x00ee));
+		const emuDebugger = new Debugger(chip8);
+		const tracer = new Tracer(chip8);
+
+		emuDebugger.toggleBreakpoint(0x202);
+		run(chip8, 5);
+		expect(tracer.getEntries().map((entry) => entry.pc)).toEqual([0x200]);
+
+		// Returning with an empty stack halts on a fault
+		emuDebugger.resume();
+		run(chip8, 5);
+		expect(tracer.getEntries().map((entry) => entry.pc)).toEqual([0x200, 0x202]);
+	});
+
+	it('stops recording once detached', () => {
+		const chip8 = load(PROGRAM);
+		const tracer = new Tracer(chip8);
+
+		run(chip8, 2);
+		tracer.detach();
+		run(chip8, 2);
+		expect(tracer.length).toBe(2);
+	});
+});
+
+describe('trace files', () => {
+	it('formats changes after the disassembly', () => {
+		const entries = trace(PROGRAM, 5).getEntries();
+
+		expect(formatTraceEntry(entries[2])).toBe('0204 8014  v0 += v1  ; V0=04 VF=01');
+		expect(formatTraceEntry(entries[3])).toBe('0206 AF00  i := 0xF00  ; I=0F00');
+		expect(formatTraceEntry(entries[4])).toBe('0208 F155  save v1  ; I=0F02 [0F00]=04 [0F01]=FF');
+	});
+
+	it('survives export and parsing', () => {
+		const entries = trace(PROGRAM, 7).getEntries();
+
+		expect(parseTrace(exportTrace(entries, 2))).toEqual(entries);
+	});
+
+	it('reads traces in looser formats', () => {
+		const text = '# from elsewhere\n\n0x200: 0x6005 ; v0=0x05 PC=202\n202 61FF\n';
+
+		expect(parseTrace(text)).toEqual([
+			{ pc: 0x200, opcode: 0x6005, text: '', registers: { V0: 5 }, memory: [] },
+			{ pc: 0x202, opcode: 0x61ff, text: '', registers: {}, memory: [] }
+		]);
+		expect(() => parseTrace('0200 60')).toThrowError(/Line 1/);
+		expect(() => parseTrace('0200 6005 ; V0')).toThrowError(/invalid change/);
+	});
+});
+
+describe('trace diffs', () => {
+	const ours = (): TraceEntry[] => trace(PROGRAM, 6).getEntries();
+
+	it('finds nothing in matching traces', () => {
+		expect(diffTraces(ours(), ours())).toBeNull();
+		expect(diffTraces(ours(), ours().slice(0, 3))).toBeNull();
+	});
+
+	it('finds the first instruction with a different value', () => {
+		const reference = ours();
+		reference[2] = { ...reference[2], registers: { V0: 4, VF: 0 } };
+		reference[4] = { ...reference[4], pc: 0x20c };
+
+		expect(diffTraces(ours(), reference)).toMatchObject({ index: 2, differences: ['VF: 0x01 vs 0x00'] });
+	});
+
+	it('finds the first instruction at a different address', () => {
+		const reference = ours();
+		reference[3] = { ...reference[3], pc: 0x208, opcode: 0xa000 };
+
+		expect(diffTraces(ours(), reference)?.differences).toEqual(['PC: 0x206 vs 0x208', 'Opcode: AF00 vs A000']);
+	});
+
+	it('compares values only once both traces have recorded them', () => {
+		// A reference which logs every register written, changed or not
+		const reference = ours();
+		reference[1] = { ...reference[1], registers: { V1: 0xff, VF: 0 } };
+
+		expect(diffTraces(ours(), reference)).toBeNull();
+	});
+});
@@ -0,0 +1,300 @@
+import type Chip8 from "./emulator";
+import type { Chip8Registers } from "./emulator";
+import { REGISTER_NAMES, hex, readRegister, type RegisterName } from "./debugger";
+import { decodeInstruction, type Syntax } from "./disassembler";
+
+/**
+ * An executed instruction and what it changed
+ */
+export interface TraceEntry {
+    pc: number;
+    opcode: number;
+    /** Disassembly; may be empty in traces from other emulators */
+    text: string;
+    /** Registers the instruction changed, with their new values */
+    registers: Partial<Record<RegisterName, number>>;
+    /** Bytes the instruction wrote, in the order written */
+    memory: Array<{ addr: number; value: number }>;
+}
+
+/**
+ * The first point at which two traces disagree
+ */
+export interface TraceDivergence {
+    /** Index of the instruction in both traces */
+    index: number;
+    ours: TraceEntry;
+    reference: TraceEntry;
+    /** What differs, e.g. `PC: 0x204 vs 0x206` */
+    differences: string[];
+}
+
+/**
+ * Progress of the trace being recorded
+ */
+export interface TraceStatus {
+    /** Whether instructions are still being recorded */
+    recording: boolean;
+    /** Entries held */
+    length: number;
+    /** Entries dropped to make room for newer ones */
+    dropped: number;
+}
+
+/** First line of exported traces */
+const TRACE_HEADER = "# chippy trace";
+
+/**
+ * Records every instruction a Chip8 executes into a bounded buffer, keeping the newest.
+ *
+ * Vetoed instructions, such as those held back by a paused debugger, are not recorded.
+ */
+export class Tracer {
+    /** Entries kept unless a capacity is given */
+    public static readonly DEFAULT_CAPACITY = 100000;
+
+    /** Maximum number of entries kept */
+    public readonly capacity: number;
+
+    private chip8: Chip8;
+    private syntax: Syntax;
+    private detachHooks: Array<() => void>;
+
+    /** Ring of entries; the oldest is at `start` */
+    private entries: TraceEntry[] = [];
+    private start = 0;
+    private dropped = 0;
+
+    // Captured before the instruction now executing
+    private before: Chip8Registers | null = null;
+    private text = "";
+    private writes: TraceEntry["memory"] = [];
+
+    /**
+     * @param chip8 emulator to trace
+     * @param capacity maximum number of entries to keep
+     * @param syntax syntax to disassemble instructions in
+     */
+    public constructor(chip8: Chip8, capacity = Tracer.DEFAULT_CAPACITY, syntax: Syntax = "octo") {
+        if (capacity < 1) {
+            throw Error("Trace capacity must be at least 1");
+        }
+
+        this.chip8 = chip8;
+        this.capacity = capacity;
+        this.syntax = syntax;
+        this.detachHooks = [
+            chip8.onBeforeStep((pc) => this.beforeStep(pc)),
+            chip8.onMemoryWrite((addr, value) => this.writes.push({ addr, value })),
+            chip8.onAfterStep((pc, opcode) => this.afterStep(pc, opcode)),
+        ];
+    }
+
+    /**
+     * Stops recording; the entries recorded so far are kept
+     */
+    public detach() {
+        this.detachHooks.forEach((detach) => detach());
+        this.detachHooks = [];
+    }
+
+    /** Number of entries held */
+    public get length(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Number of entries dropped to make room for newer ones since the trace was last cleared
+     */
+    public getDropped(): number {
+        return this.dropped;
+    }
+
+    /**
+     * @returns the entries held, oldest first
+     */
+    public getEntries(): TraceEntry[] {
+        return this.entries.slice(this.start).concat(this.entries.slice(0, this.start));
+    }
+
+    /**
+     * Discards every entry
+     */
+    public clear() {
+        this.entries = [];
+        this.start = 0;
+        this.dropped = 0;
+    }
+
+    private beforeStep(pc: number) {
+        // Runs for vetoed instructions too; only `afterStep()` records an entry
+        this.before = this.chip8.inspect();
+        this.text = decodeInstruction(this.chip8.readMemory(pc, 4), 0, this.syntax)?.text ?? "";
+        this.writes = [];
+    }
+
+    private afterStep(pc: number, opcode: number) {
+        const registers: TraceEntry["registers"] = {};
+        const after = this.chip8.inspect();
+        for (const name of REGISTER_NAMES) {
+            const value = readRegister(after, name);
+            if (!this.before || readRegister(this.before, name) !== value) {
+                registers[name] = value;
+            }
+        }
+
+        const entry: TraceEntry = { pc, opcode, text: this.text, registers, memory: this.writes };
+        this.writes = [];
+
+        if (this.entries.length < this.capacity) {
+            this.entries.push(entry);
+        } else {
+            this.entries[this.start] = entry;
+            this.start = (this.start + 1) % this.capacity;
+            this.dropped++;
+        }
+    }
+}
+
+function registerDigits(name: RegisterName): number {
+    return name === "I" ? 4 : 2;
+}
+
+/**
+ * Formats an entry as a line of a trace file, e.g. `0204 8014  v0 += v1  ; V0=05 VF=00 [0F00]=12`
+ */
+export function formatTraceEntry(entry: TraceEntry): string {
+    const changes = REGISTER_NAMES
+        .filter((name) => entry.registers[name] !== undefined)
+        .map((name) => `${name}=${hex(entry.registers[name] as number, registerDigits(name), false)}`)
+        .concat(entry.memory.map(({ addr, value }) => `[${hex(addr, 4, false)}]=${hex(value, 2, false)}`));
+
+    let line = `${hex(entry.pc, 4, false)} ${hex(entry.opcode, 4, false)}  ${entry.text}`;
+    if (changes.length > 0) {
+        line += `  ; ${changes.join(" ")}`;
+    }
+    return line;
+}
+
+/**
+ * Exports a trace in the line-based text format read by `parseTrace()`
+ * @param entries entries, oldest first
+ * @param dropped number of entries dropped before the first, noted in the header
+ */
+export function exportTrace(entries: TraceEntry[], dropped = 0): string {
+    let text = `${TRACE_HEADER}\n`;
+    if (dropped > 0) {
+        text += `# ${dropped} earlier instructions dropped\n`;
+    }
+    return text + entries.map((entry) => formatTraceEntry(entry) + "\n").join("");
+}
+
+/**
+ * Parses a trace in the format written by `exportTrace()`: one instruction per line, as
+ * PC and opcode in hex, then optional disassembly, then optionally `;` followed by the
+ * changed registers and memory as `NAME=value` and `[address]=value` in hex.
+ *
+ * Traces from other emulators can be converted to this format. A `0x` prefix on PC and
+ * opcode is allowed, `:` may separate them, and changes to registers other than V0 to VF,
+ * I, DT and ST are ignored. Blank lines and lines starting with `#` are skipped.
+ * @param text trace to parse
+ */
+export function parseTrace(text: string): TraceEntry[] {
+    const entries: TraceEntry[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (/^\s*(#.*)?$/.test(line)) {
+            return;
+        }
+
+        const match = /^\s*(?:0x)?([0-9a-f]{1,4})[\s:]+(?:0x)?([0-9a-f]{4})\b([^;]*)(?:;(.*))?$/i.exec(line);
+        if (!match) {
+            throw Error(`Line ${index + 1}: expected a PC and opcode`);
+        }
+
+        const entry: TraceEntry = {
+            pc: parseInt(match[1], 16),
+            opcode: parseInt(match[2], 16),
+            text: match[3].trim(),
+            registers: {},
+            memory: [],
+        };
+
+        for (const change of (match[4] ?? "").trim().split(/\s+/).filter((field) => field !== "")) {
+            const changeMatch = /^(\[(?:0x)?[0-9a-f]+\]|[a-z0-9]+)=(?:0x)?([0-9a-f]+)$/i.exec(change);
+            if (!changeMatch) {
+                throw Error(`Line ${index + 1}: invalid change: ${change}`);
+            }
+
+            const [, target, valueText] = changeMatch;
+            const value = parseInt(valueText, 16);
+            const name = target.toUpperCase() as RegisterName;
+            if (target.startsWith("[")) {
+                entry.memory.push({ addr: parseInt(target.slice(1, -1).replace(/^0x/i, ""), 16), value });
+            } else if (REGISTER_NAMES.includes(name)) {
+                entry.registers[name] = value;
+            }
+        }
+
+        entries.push(entry);
+    });
+
+    return entries;
+}
+
+/**
+ * Finds the first instruction at which two traces disagree: on PC, opcode, or the value
+ * a register or memory location holds after it.
+ *
+ * Values are compared only once both traces have recorded them, so a reference trace
+ * which logs every register written, rather than only those changed, still lines up.
+ * Disassembly is not compared, and neither is anything after the shorter trace ends.
+ * @param ours trace from this emulator, starting from the same point as `reference`
+ * @param reference trace to compare against, such as from another emulator
+ * @returns the first divergence, or null if the traces agree
+ */
+export function diffTraces(ours: TraceEntry[], reference: TraceEntry[]): TraceDivergence | null {
+    const ourValues = new Map<string, number>();
+    const referenceValues = new Map<string, number>();
+
+    const record = (values: Map<string, number>, entry: TraceEntry): string[] => {
+        const changed = Object.entries(entry.registers).map(([name, value]) => {
+            values.set(name, value as number);
+            return name;
+        });
+        for (const { addr, value } of entry.memory) {
+            const key = `[${hex(addr, 4, false)}]`;
+            values.set(key, value);
+            changed.push(key);
+        }
+        return changed;
+    };
+
+    for (let index = 0; index < Math.min(ours.length, reference.length); index++) {
+        const entry = ours[index];
+        const referenceEntry = reference[index];
+
+        const differences: string[] = [];
+        if (entry.pc !== referenceEntry.pc) {
+            differences.push(`PC: ${hex(entry.pc)} vs ${hex(referenceEntry.pc)}`);
+        }
+        if (entry.opcode !== referenceEntry.opcode) {
+            differences.push(`Opcode: ${hex(entry.opcode, 4, false)} vs ${hex(referenceEntry.opcode, 4, false)}`);
+        }
+
+        const changed = new Set([...record(ourValues, entry), ...record(referenceValues, referenceEntry)]);
+        for (const key of changed) {
+            const value = ourValues.get(key);
+            const referenceValue = referenceValues.get(key);
+            if (value !== undefined && referenceValue !== undefined && value !== referenceValue) {
+                differences.push(`${key}: ${hex(value, 2)} vs ${hex(referenceValue, 2)}`);
+            }
+        }
+
+        if (differences.length > 0) {
+            return { index, ours: entry, reference: referenceEntry, differences };
+        }
+    }
+
+    return null;
+}
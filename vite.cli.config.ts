@@ -0,0 +1,14 @@
+import { defineConfig } from 'vite';
+
+// Bundles the command-line runner into a single script for Node, with only Node's built-in modules left out
+export default defineConfig({
+	build: {
+		ssr: 'src/cli/chippy.ts',
+		outDir: 'build/cli',
+		target: 'node18',
+		emptyOutDir: true
+	},
+	ssr: {
+		noExternal: ['gl-matrix']
+	}
+});